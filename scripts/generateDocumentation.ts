@@ -16,6 +16,16 @@ const tsConfig = {
 
 const files = [
     { path: 'src/index.ts' },
+    { path: 'src/codegen.ts' },
+    { path: 'src/compare.ts' },
+    { path: 'src/env.ts' },
+    { path: 'src/errors.ts' },
+    { path: 'src/func.ts' },
+    { path: 'src/http.ts' },
+    { path: 'src/openapi.ts' },
+    { path: 'src/sample.ts' },
+    { path: 'src/standalone.ts' },
+    { path: 'src/versioned.ts' },
 ];
 
 const classIsExported = (node: tsc.Node): node is tsc.ClassDeclaration => {
@@ -0,0 +1,58 @@
+import { Schema } from 'type-level-schema/schema';
+import { copyNominalName } from './codegen';
+import { Codec } from './transform';
+
+/**
+ * no-doc - A runtime check that cannot be expressed with JSON schema.
+ */
+export interface Refinement<R> {
+    predicate: (data: any) => R;
+    message: string;
+}
+
+/**
+ * no-doc - The functions that a schema is checked and converted with, which cannot be written in its JSON.
+ */
+export interface SchemaAnnotations {
+    refine: Array<Refinement<boolean>>;
+    refineAsync: Array<Refinement<Promise<boolean>>>;
+    codec?: Codec<any, any>;
+}
+
+/**
+ * no-doc - Remembers the annotations of schemas.
+ * Like nominal type tags, they are not part of the JSON schema, so they are tracked by schema identity instead.
+ * This also lets them be garbage collected along with the schemas that use them.
+ */
+const annotations = new WeakMap<object, SchemaAnnotations>();
+
+const noAnnotations: SchemaAnnotations = { refine: [], refineAsync: [] };
+
+/**
+ * no-doc - Gets the annotations of a schema, which are empty if it has none.
+ * @param schema any schema
+ */
+export const getAnnotations = (schema: Schema): SchemaAnnotations => annotations.get(schema) || noAnnotations;
+
+/**
+ * no-doc - Adds annotations to a schema, replacing those of the same kind.
+ * Only schemas that have just been created should be annotated, because schemas are never changed once they are used.
+ * @param schema a newly created schema
+ * @param added the annotations to add
+ */
+export const annotate = <S extends Schema>(schema: S, added: Partial<SchemaAnnotations>): S => {
+    annotations.set(schema, { ...getAnnotations(schema), ...added });
+    return schema;
+};
+
+/**
+ * no-doc - Copies the annotations and the nominal type tag (if any) from one schema to another.
+ * Used when a schema is replaced by an extended copy of itself.
+ */
+export const copyAnnotations = <S extends Schema>(from: Schema, to: S): S => {
+    const existing = annotations.get(from);
+    if (existing) annotations.set(to, existing);
+
+    copyNominalName(from, to);
+    return to;
+};
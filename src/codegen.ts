@@ -0,0 +1,286 @@
+import { Schema } from 'type-level-schema/schema';
+import { Validator } from './index';
+
+/**
+ * no-doc - Remembers the nominal type tag of schemas created with `nominal`.
+ * The tag is not part of the JSON schema, so it is tracked by schema identity instead.
+ */
+const nominalNames = new WeakMap<object, string>();
+
+/**
+ * no-doc - Marks a schema as belonging to a nominal type.
+ * @param schema the schema of a nominal validator
+ * @param name the nominal type tag
+ */
+export const setNominalName = (schema: Schema, name: string) => {
+    nominalNames.set(schema, name);
+};
+
+/**
+ * no-doc - Gets the nominal type tag of a schema, if it has one.
+ * @param schema any schema
+ */
+export const getNominalName = (schema: Schema): string | undefined => nominalNames.get(schema);
+
+/**
+ * no-doc - Copies the nominal type tag (if any) from one schema to another.
+ * Used when a schema is replaced by an extended copy of itself.
+ */
+export const copyNominalName = (from: Schema, to: Schema) => {
+    const name = getNominalName(from);
+    if (name) setNominalName(to, name);
+    return to;
+};
+
+/**
+ * no-doc - Tracks the named declarations that have been generated while rendering a set of validators.
+ */
+interface CodegenContext {
+    declarations: string[];
+    declared: Map<string, any>;
+    definitions: Record<string, any>;
+    usesNominal: boolean;
+}
+
+const indent = (text: string) => text.split('\n').map(line => line ? `    ${line}` : line).join('\n');
+
+const isIdentifier = (key: string) => /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(key);
+
+const renderKey = (key: string) => isIdentifier(key) ? key : JSON.stringify(key);
+
+const renderLiteral = (value: unknown) => typeof value === 'string'
+    ? `'${value.replace(/\\/g, '\\\\').replace(/'/g, `\\'`)}'`
+    : JSON.stringify(value);
+
+const renderDoc = (description: string | undefined) => {
+    if (!description) return '';
+    const lines = description.split('\n').map(line => ` * ${line}`.trimRight());
+    return ['/**', ...lines, ' */', ''].join('\n');
+};
+
+const wrapUnionMember = (type: string) => / [|&] /.test(type) ? `(${type})` : type;
+
+const primitiveTypes: Record<string, string> = {
+    string: 'string',
+    number: 'number',
+    integer: 'number',
+    boolean: 'boolean',
+    null: 'null',
+    array: 'any[]',
+    object: 'object',
+};
+
+/**
+ * no-doc - Gets the name that a schema should be declared under, if it should be declared separately.
+ */
+export const declarationName = (schema: any): string | undefined => typeof schema.title === 'string' && isIdentifier(schema.title)
+    ? schema.title
+    : undefined;
+
+/**
+ * no-doc - Gets the name of the definition that a schema refers to, such as the type of a `recursive` validator.
+ */
+const definitionName = (schema: any): string | undefined => {
+    const name = typeof schema.$ref === 'string' ? schema.$ref.replace(/^#\/definitions\//, '') : undefined;
+    return name && isIdentifier(name) ? name : undefined;
+};
+
+/**
+ * no-doc - Gets the name that `toTypeScript` declares the type of a validator under.
+ * @param key the key of the validator in the object passed to `toTypeScript`
+ * @param schema the schema of the validator
+ */
+export const getTypeName = (key: string, schema: Schema) => declarationName(schema) || definitionName(schema) || key;
+
+const renderProperties = (schema: any, ctx: CodegenContext) => {
+    const properties: Record<string, any> = schema.properties || {};
+    const required: string[] = schema.required || [];
+
+    return Object.keys(properties).map(key => {
+        const property = properties[key];
+        const optional = required.includes(key) ? '' : '?';
+        const doc = declarationName(property) ? '' : renderDoc(property.description);
+        return `${doc}${renderKey(key)}${optional}: ${renderType(property, ctx)};`;
+    });
+};
+
+const renderObject = (schema: any, ctx: CodegenContext): string => {
+    if (!schema.properties && typeof schema.additionalProperties === 'object') {
+        return `Record<string, ${renderType(schema.additionalProperties, ctx)}>`;
+    }
+
+    const lines = renderProperties(schema, ctx);
+    if (lines.length === 0) return 'object';
+
+    return `{\n${indent(lines.join('\n'))}\n}`;
+};
+
+const renderArray = (schema: any, ctx: CodegenContext): string => {
+    if (Array.isArray(schema.items)) {
+        const items = schema.items.map((item: Schema) => renderType(item, ctx));
+        const rest = typeof schema.additionalItems === 'object'
+            ? [`...${wrapUnionMember(renderType(schema.additionalItems, ctx))}[]`]
+            : [];
+        return `[${[...items, ...rest].join(', ')}]`;
+    }
+
+    if (schema.maxItems === 0) return '[]';
+    if (!schema.items) return 'any[]';
+    return `${wrapUnionMember(renderType(schema.items, ctx))}[]`;
+};
+
+/**
+ * no-doc - Renders the variants of a `taggedUnion`, adding the tag of each variant to its type.
+ */
+const renderTaggedUnion = (schema: any, ctx: CodegenContext): string => {
+    const tag: string = schema.discriminator.propertyName;
+
+    return schema.allOf.map((branch: any) => {
+        const value = branch.if.properties[tag].const;
+        const variant = branch.then;
+
+        if (declarationName(variant) || variant.type !== 'object' || !variant.properties) {
+            return `${wrapUnionMember(renderType(variant, ctx))} & { ${renderKey(tag)}: ${renderLiteral(value)} }`;
+        }
+
+        return renderObject({
+            ...variant,
+            properties: { [tag]: { const: value }, ...variant.properties },
+            required: [ tag, ...(variant.required || []) ],
+        }, ctx);
+    }).join(' | ');
+};
+
+/**
+ * no-doc - Renders a `$ref` as the name of the definition that it refers to, declaring the definition if it has not been declared yet.
+ */
+const renderReference = (schema: any, ctx: CodegenContext): string => {
+    const name = definitionName(schema);
+    if (!name) return 'any';
+
+    if (ctx.definitions[name]) declare(name, ctx.definitions[name], ctx);
+    return name;
+};
+
+/**
+ * no-doc - Renders the typescript type of a schema, without considering its name or nominal tag.
+ */
+const renderStructure = (schema: any, ctx: CodegenContext): string => {
+    if (schema.$ref) return renderReference(schema, ctx);
+    if (schema.enum) return schema.enum.map(renderLiteral).join(' | ');
+    if ('const' in schema) return renderLiteral(schema.const);
+    if (schema.discriminator) return renderTaggedUnion(schema, ctx);
+    if (schema.allOf) return schema.allOf.map((s: Schema) => wrapUnionMember(renderType(s, ctx))).join(' & ');
+    if (schema.oneOf) return schema.oneOf.map((s: Schema) => renderType(s, ctx)).join(' | ');
+    if (schema.anyOf) return schema.anyOf.map((s: Schema) => renderType(s, ctx)).join(' | ');
+
+    if (Array.isArray(schema.type)) return schema.type.map((t: string) => primitiveTypes[t] || 'unknown').join(' | ');
+    if (schema.type === 'object') return renderObject(schema, ctx);
+    if (schema.type === 'array') return renderArray(schema, ctx);
+    if (schema.type) return primitiveTypes[schema.type] || 'unknown';
+
+    return 'any';
+};
+
+/**
+ * no-doc - Renders the typescript type of a schema, including its nominal tag.
+ */
+const renderUnnamed = (schema: any, ctx: CodegenContext): string => {
+    const structure = renderStructure(schema, ctx);
+    const nominal = getNominalName(schema);
+    if (!nominal) return structure;
+
+    ctx.usesNominal = true;
+    return `Nominal<${structure}, ${renderLiteral(nominal)}>`;
+};
+
+/**
+ * no-doc - Adds a named declaration for the given schema to the generated output.
+ */
+const declare = (name: string, schema: any, ctx: CodegenContext) => {
+    const existing = ctx.declared.get(name);
+    if (existing && existing !== schema && JSON.stringify(existing) !== JSON.stringify(schema)) {
+        throw new Error(`Cannot declare two different types named '${name}'`);
+    }
+    if (existing) return;
+    ctx.declared.set(name, schema);
+
+    // reserve a position so that declarations appear before the nested declarations they reference
+    const position = ctx.declarations.push('') - 1;
+
+    const isInterface = schema.type === 'object' && !!schema.properties && !getNominalName(schema);
+    const body = isInterface
+        ? `export interface ${name} {\n${indent(renderProperties(schema, ctx).join('\n'))}\n}`
+        : `export type ${name} = ${renderUnnamed(schema, ctx)};`;
+
+    ctx.declarations[position] = `${renderDoc(schema.description)}${body}`;
+};
+
+/**
+ * no-doc - Renders a reference to the typescript type of a schema.
+ * Schemas with a `title` (and the definitions of recursive types) are declared separately and referenced by name.
+ */
+const renderType = (schema: any, ctx: CodegenContext): string => {
+    const name = declarationName(schema);
+    if (!name) return renderUnnamed(schema, ctx);
+
+    declare(name, schema, ctx);
+    return name;
+};
+
+/**
+ * no-doc - Renders the type declarations for the given validators, along with the imports that the declarations need.
+ * @param validators the validators to declare types for, by the name of their type
+ */
+export const renderDeclarations = (validators: Record<string, Validator<any>>) => {
+    const ctx: CodegenContext = {
+        declarations: [],
+        declared: new Map(),
+        definitions: {},
+        usesNominal: false,
+    };
+
+    Object.keys(validators).forEach(key => {
+        const schema: any = validators[key].getSchema();
+        const name = getTypeName(key, schema);
+        ctx.definitions = schema.definitions || {};
+
+        // a validator that only refers to a definition (such as a `recursive` validator) is declared as that definition
+        const declared = definitionName(schema) === name && ctx.definitions[name] ? ctx.definitions[name] : schema;
+        declare(name, declared, ctx);
+    });
+
+    const imports = ctx.usesNominal ? [`import { Nominal } from 'simplytyped';`] : [];
+    return { imports, declarations: ctx.declarations };
+};
+
+/**
+ * Generates the contents of a typescript declaration file (`.d.ts`) for the given validators.
+ * Each validator is declared using its `title` meta-data as the type name, or its key if it has no title.
+ * Nested schemas that have a `title` are declared separately and referenced by name,
+ * and `description` meta-data is emitted as JSDoc comments.
+ * Throws if two different schemas would be declared under the same name.
+ *
+ * @param validators An object whose values are the `Validator` instances to generate types for.
+ * @returns the text of a typescript declaration file.
+ *
+ * @example
+ * ```typescript
+ * import * as v from 'validtyped';
+ *
+ * const user = v.object({
+ *   id: v.nominal(v.string(), 'UserId'),
+ *   name: v.string(),
+ * }).setSchemaMetaData({ title: 'User', description: 'A registered user' });
+ *
+ * fs.writeFileSync('types.d.ts', v.toTypeScript({ User: user }));
+ * // export interface User {
+ * //     id: Nominal<string, 'UserId'>;
+ * //     name: string;
+ * // }
+ * ```
+ */
+export function toTypeScript(validators: Record<string, Validator<any>>): string {
+    const { imports, declarations } = renderDeclarations(validators);
+    return [...imports, ...declarations].join('\n\n') + '\n';
+}
@@ -0,0 +1,469 @@
+import { getAnnotations } from './annotations';
+import { Validator } from './index';
+
+/**
+ * How a change to a schema affects data that is already being exchanged.
+ * A `backward` compatible change still accepts all of the data that the old schema accepted (for instance a key that is no longer required),
+ * a `forward` compatible change only accepts data that the old schema also accepted (for instance a newly required key),
+ * and a `breaking` change does neither (for instance a key that changed type).
+ */
+export type Compatibility = 'backward' | 'forward' | 'breaking';
+
+/**
+ * A single difference between two schemas.
+ * `path` is the location of the affected data, for instance `user.tags[*]` (where `[*]` stands for every item), and is empty for the root of the data.
+ */
+export interface SchemaChange {
+    path: string;
+    compatibility: Compatibility;
+    message: string;
+}
+
+/**
+ * The result of comparing two versions of a schema with `compare`.
+ * `compatibility` is `full` when nothing that affects validation changed, `backward` or `forward` when every change is,
+ * and `breaking` otherwise.
+ */
+export interface SchemaComparison {
+    compatibility: Compatibility | 'full';
+    changes: SchemaChange[];
+}
+
+/**
+ * no-doc - Tracks the state of comparing two schemas.
+ * Pairs of schemas that have already been compared are skipped, so that recursive types are only compared once.
+ */
+interface CompareContext {
+    roots: [any, any];
+    ids: [Record<string, any>, Record<string, any>];
+    compared: Map<object, Set<object>>;
+}
+
+/**
+ * no-doc - Keywords that do not affect which data is valid.
+ * Stripping only changes the data once it is valid, and nominal types and codecs are not part of the schema.
+ */
+const ignoredKeywords = ['$schema', '$id', 'id', 'title', 'description', 'default', 'examples', 'definitions', 'stripUnknown'];
+
+/**
+ * no-doc - Keywords that are compared as a part of another keyword, or by their own rules.
+ */
+const comparedKeywords = [
+    'type', 'enum', 'const', 'allOf', 'anyOf', 'oneOf', 'discriminator',
+    'minLength', 'maxLength', 'pattern', 'format',
+    'minimum', 'maximum', 'exclusiveMinimum', 'exclusiveMaximum', 'multipleOf',
+    'items', 'additionalItems', 'minItems', 'maxItems', 'uniqueItems',
+    'properties', 'required', 'additionalProperties', 'minProperties', 'maxProperties',
+];
+
+const allTypes = ['string', 'number', 'integer', 'boolean', 'null', 'array', 'object'];
+
+// refinements are annotations rather than keywords, so schemas with the same keywords are only equal with the same number of refinements
+const sameRefinements = (a: object, b: object) =>
+    getAnnotations(a).refine.length === getAnnotations(b).refine.length && getAnnotations(a).refineAsync.length === getAnnotations(b).refineAsync.length;
+
+const isEqual = (a: unknown, b: unknown): boolean => {
+    if (a === b) return true;
+    if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+    if (Array.isArray(a) !== Array.isArray(b) || !sameRefinements(a, b)) return false;
+
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every(key => isEqual((a as any)[key], (b as any)[key]));
+};
+
+const render = (value: unknown) => typeof value === 'string' ? `'${value}'` : JSON.stringify(value);
+
+const childPath = (path: string, key: string | number) => {
+    if (typeof key === 'number') return `${path}[${key}]`;
+    if (!/^[A-Za-z_$][A-Za-z0-9_$]*$/.test(key)) return `${path}[${JSON.stringify(key)}]`;
+    return path ? `${path}.${key}` : key;
+};
+
+const itemsPath = (path: string) => `${path}[*]`;
+
+const change = (path: string, compatibility: Compatibility, message: string): SchemaChange => ({ path, compatibility, message });
+
+/**
+ * no-doc - Classifies a change by whether the new schema accepts more data than the old one, less, or both.
+ */
+const classify = (widened: boolean, narrowed: boolean): Compatibility | undefined => {
+    if (widened && narrowed) return 'breaking';
+    if (widened) return 'backward';
+    if (narrowed) return 'forward';
+};
+
+const collectIds = (schema: unknown, ids: Record<string, any> = {}): Record<string, any> => {
+    if (typeof schema !== 'object' || schema === null) return ids;
+    if (typeof (schema as any).$id === 'string') ids[(schema as any).$id] = schema;
+
+    Object.keys(schema).forEach(key => collectIds((schema as any)[key], ids));
+    return ids;
+};
+
+const resolve = (schema: any, side: 0 | 1, ctx: CompareContext): any => {
+    if (typeof schema !== 'object' || typeof schema.$ref !== 'string') return schema;
+
+    const ref: string = schema.$ref;
+    const root = ctx.roots[side];
+    if (ref === '#') return root;
+    if (ref.startsWith('#/definitions/')) return resolve(root.definitions[ref.slice('#/definitions/'.length)], side, ctx);
+    if (ctx.ids[side][ref]) return ctx.ids[side][ref];
+    throw new Error(`Cannot compare the unknown reference '${ref}'`);
+};
+
+/**
+ * no-doc - Whether a schema accepts any data at all, ignoring keywords that do not affect validation.
+ */
+const isAnything = (schema: any) => schema === true || (typeof schema === 'object' && Object.keys(schema).every(key => ignoredKeywords.includes(key)));
+
+const valuesOf = (schema: any): unknown[] | undefined => 'const' in schema ? [ schema.const ] : schema.enum;
+
+const typesOf = (schema: any): string[] | undefined => schema.type === undefined ? undefined : [].concat(schema.type);
+
+const acceptsType = (type: string, types: string[] | undefined) =>
+    types === undefined || types.includes(type) || (type === 'integer' && types.includes('number'));
+
+const describe = (schema: any): string => {
+    if (typeof schema.$ref === 'string') return schema.$ref.replace('#/definitions/', '');
+    const values = valuesOf(schema);
+    if (values) return values.map(render).join(', ');
+    const types = typesOf(schema);
+    return types ? types.join(' or ') : 'any value';
+};
+
+/**
+ * no-doc - The possible types of a union, or of a tagged union, or the schema itself when it is not a union.
+ */
+const branchesOf = (schema: any): any[] => {
+    if (schema.discriminator && Array.isArray(schema.allOf)) return schema.allOf.map((branch: any) => branch.then);
+    return schema.oneOf || schema.anyOf || [ schema ];
+};
+
+const isUnion = (schema: any) => Array.isArray(schema.oneOf) || Array.isArray(schema.anyOf) || !!schema.discriminator;
+
+/**
+ * no-doc - Compares the possible types of two unions.
+ * Types that are unchanged are matched first, then changed types are matched by their JSON type,
+ * and the types that are left over were added or removed.
+ */
+const compareUnions = (older: any, newer: any, path: string, ctx: CompareContext): SchemaChange[] => {
+    const kind = (schema: any) => JSON.stringify(typesOf(resolve(schema, 0, ctx)) || typesOf(resolve(schema, 1, ctx)) || null);
+
+    const added = [...branchesOf(newer)];
+    const removed = branchesOf(older).filter(branch => {
+        const same = added.findIndex(candidate => isEqual(candidate, branch));
+        if (same === -1) return true;
+        added.splice(same, 1);
+        return false;
+    });
+
+    const changed: SchemaChange[] = [];
+    const unmatched = removed.filter(branch => {
+        const similar = added.findIndex(candidate => kind(candidate) === kind(branch));
+        if (similar === -1) return true;
+        changed.push(...compareSchemas(branch, added[similar], path, ctx));
+        added.splice(similar, 1);
+        return false;
+    });
+
+    return [
+        ...changed,
+        ...unmatched.map(branch => change(path, 'forward', `no longer accepts ${describe(branch)}`)),
+        ...added.map(branch => change(path, 'backward', `now also accepts ${describe(branch)}`)),
+    ];
+};
+
+/**
+ * no-doc - Compares the variants of two tagged unions by their tag.
+ */
+const compareTaggedUnions = (older: any, newer: any, path: string, ctx: CompareContext): SchemaChange[] => {
+    const tag: string = older.discriminator.propertyName;
+    if (newer.discriminator.propertyName !== tag) {
+        return [ change(path, 'breaking', `changed the tag from '${tag}' to '${newer.discriminator.propertyName}'`) ];
+    }
+
+    const variants = (schema: any): Record<string, any> => (schema.allOf as any[])
+        .reduce((all, branch) => ({ ...all, [branch.if.properties[tag].const]: branch.then }), {});
+
+    const oldVariants = variants(older);
+    const newVariants = variants(newer);
+
+    return [
+        ...Object.keys(oldVariants).map(value => value in newVariants
+            ? compareSchemas(oldVariants[value], newVariants[value], path, ctx)
+            : [ change(path, 'forward', `no longer accepts ${tag} '${value}'`) ]),
+        ...Object.keys(newVariants).filter(value => !(value in oldVariants)).map(value => [ change(path, 'backward', `now also accepts ${tag} '${value}'`) ]),
+    ].reduce((all, changes) => [...all, ...changes], []);
+};
+
+/**
+ * no-doc - Compares an optional limit such as `minLength`, where a higher lower limit (or a lower upper limit) accepts less data.
+ */
+const compareLimit = (older: any, newer: any, keyword: string, lower: boolean, path: string): SchemaChange[] => {
+    const a = older[keyword];
+    const b = newer[keyword];
+    if (a === b) return [];
+
+    const lowest = lower ? -Infinity : Infinity;
+    const stricter = lower ? (b === undefined ? lowest : b) > (a === undefined ? lowest : a) : (b === undefined ? lowest : b) < (a === undefined ? lowest : a);
+    const message = `${keyword} changed from ${a === undefined ? 'none' : a} to ${b === undefined ? 'none' : b}`;
+    return [ change(path, stricter ? 'forward' : 'backward', message) ];
+};
+
+/**
+ * no-doc - Compares the numeric bounds of two schemas, combining `minimum` with `exclusiveMinimum` (and `maximum` with `exclusiveMaximum`).
+ */
+const compareBound = (older: any, newer: any, lower: boolean, path: string): SchemaChange[] => {
+    const [ inclusive, exclusive ] = lower ? ['minimum', 'exclusiveMinimum'] : ['maximum', 'exclusiveMaximum'];
+    const boundOf = (schema: any) => {
+        if (typeof schema[exclusive] === 'number' && (schema[inclusive] === undefined || (lower ? schema[exclusive] >= schema[inclusive] : schema[exclusive] <= schema[inclusive]))) {
+            return { value: schema[exclusive] as number, exclusive: true };
+        }
+        return schema[inclusive] === undefined ? undefined : { value: schema[inclusive] as number, exclusive: false };
+    };
+    const renderBound = (bound: { value: number, exclusive: boolean } | undefined) => bound
+        ? `${lower ? '>' : '<'}${bound.exclusive ? '' : '='} ${bound.value}`
+        : 'none';
+
+    const a = boundOf(older);
+    const b = boundOf(newer);
+    if (isEqual(a, b)) return [];
+
+    // a bound is stricter than another when it excludes more numbers
+    const stricter = (x = a, y = b) => !!y && (!x
+        || (lower ? y.value > x.value : y.value < x.value)
+        || (y.value === x.value && y.exclusive && !x.exclusive));
+
+    const message = `${lower ? 'lower' : 'upper'} bound changed from ${renderBound(a)} to ${renderBound(b)}`;
+    return [ change(path, stricter() ? 'forward' : 'backward', message) ];
+};
+
+/**
+ * no-doc - Compares a keyword that only restricts data when it is present, such as `pattern`.
+ * Adding it accepts less data, removing it accepts more, and changing it may do both.
+ */
+const compareRestriction = (older: any, newer: any, keyword: string, path: string): SchemaChange[] => {
+    const a = older[keyword];
+    const b = newer[keyword];
+    if (isEqual(a, b)) return [];
+
+    const compatibility = classify(b === undefined || b === false, a === undefined || a === false) || 'breaking';
+    const message = `${keyword} changed from ${a === undefined ? 'none' : render(a)} to ${b === undefined ? 'none' : render(b)}`;
+    return [ change(path, compatibility, message) ];
+};
+
+const compareTypes = (older: any, newer: any, path: string): SchemaChange[] => {
+    const a = typesOf(older);
+    const b = typesOf(newer);
+
+    const widened = allTypes.filter(type => !acceptsType(type, a) && acceptsType(type, b));
+    const narrowed = allTypes.filter(type => acceptsType(type, a) && !acceptsType(type, b));
+
+    const compatibility = classify(widened.length > 0, narrowed.length > 0);
+    if (compatibility === 'breaking') return [ change(path, compatibility, `changed type from ${a ? a.join(' or ') : 'any type'} to ${b ? b.join(' or ') : 'any type'}`) ];
+    if (compatibility === 'backward') return [ change(path, compatibility, `now also accepts ${widened.join(', ')}`) ];
+    if (compatibility === 'forward') return [ change(path, compatibility, `no longer accepts ${narrowed.join(', ')}`) ];
+    return [];
+};
+
+const compareValues = (older: any, newer: any, path: string): SchemaChange[] => {
+    const a = valuesOf(older);
+    const b = valuesOf(newer);
+    if (!a && !b) return [];
+    if (!b) return [ change(path, 'backward', `is no longer restricted to ${a!.map(render).join(', ')}`) ];
+    if (!a) return [ change(path, 'forward', `is now restricted to ${b.map(render).join(', ')}`) ];
+
+    const added = b.filter(value => !a.some(other => isEqual(value, other)));
+    const removed = a.filter(value => !b.some(other => isEqual(value, other)));
+
+    const compatibility = classify(added.length > 0, removed.length > 0);
+    if (compatibility === 'breaking') return [ change(path, compatibility, `changed the accepted values from ${a.map(render).join(', ')} to ${b.map(render).join(', ')}`) ];
+    if (compatibility === 'backward') return [ change(path, compatibility, `now also accepts ${added.map(render).join(', ')}`) ];
+    if (compatibility === 'forward') return [ change(path, compatibility, `no longer accepts ${removed.map(render).join(', ')}`) ];
+    return [];
+};
+
+const compareMultipleOf = (older: any, newer: any, path: string): SchemaChange[] => {
+    const a = older.multipleOf;
+    const b = newer.multipleOf;
+    if (a === b) return [];
+
+    // a multiple of a multiple is stricter, for instance every multiple of 4 is also a multiple of 2
+    const isMultiple = (x: number, y: number) => Math.abs(Math.round(x / y) - x / y) < 1e-9;
+    const compatibility = a === undefined ? 'forward'
+        : b === undefined ? 'backward'
+        : isMultiple(b, a) ? 'forward'
+        : isMultiple(a, b) ? 'backward'
+        : 'breaking';
+
+    return [ change(path, compatibility, `multipleOf changed from ${a === undefined ? 'none' : a} to ${b === undefined ? 'none' : b}`) ];
+};
+
+const compareRefinements = (a: number, b: number, path: string): SchemaChange[] => {
+    if (a === b) return [];
+
+    return [ change(path, b > a ? 'forward' : 'backward', `number of refinements changed from ${a} to ${b}`) ];
+};
+
+/**
+ * no-doc - The schema that any key of an object must match when it is not listed in `properties`.
+ * Unknown keys are allowed by default, and stripped objects accept (and then remove) them.
+ */
+const extraPropertiesOf = (schema: any) => schema.additionalProperties === undefined ? {} : schema.additionalProperties;
+
+const compareObjects = (older: any, newer: any, path: string, ctx: CompareContext): SchemaChange[] => {
+    const oldProperties = older.properties || {};
+    const newProperties = newer.properties || {};
+    const keys = [...Object.keys(oldProperties), ...Object.keys(newProperties).filter(key => !(key in oldProperties))];
+
+    const properties = keys.map(key => compareSchemas(
+        key in oldProperties ? oldProperties[key] : extraPropertiesOf(older),
+        key in newProperties ? newProperties[key] : extraPropertiesOf(newer),
+        childPath(path, key),
+        ctx,
+    ));
+
+    const oldRequired: string[] = older.required || [];
+    const newRequired: string[] = newer.required || [];
+    const required = [
+        ...newRequired.filter(key => !oldRequired.includes(key)).map(key => change(path, 'forward', `key '${key}' is now required`)),
+        ...oldRequired.filter(key => !newRequired.includes(key)).map(key => change(path, 'backward', `key '${key}' is no longer required`)),
+    ];
+
+    const a = extraPropertiesOf(older);
+    const b = extraPropertiesOf(newer);
+    const extra = isEqual(a, b) ? []
+        : b === false ? [ change(path, 'forward', 'unknown keys are no longer allowed') ]
+        : a === false ? [ change(path, 'backward', 'unknown keys are now allowed') ]
+        : compareSchemas(a, b, itemsPath(path), ctx);
+
+    return [...properties.reduce((all, changes) => [...all, ...changes], []), ...required, ...extra];
+};
+
+const compareArrays = (older: any, newer: any, path: string, ctx: CompareContext): SchemaChange[] => {
+    const isTuple = (schema: any) => Array.isArray(schema.items);
+    const restOf = (schema: any) => isTuple(schema)
+        ? (schema.additionalItems === undefined ? {} : schema.additionalItems)
+        : (schema.items === undefined ? {} : schema.items);
+    const itemAt = (schema: any, i: number) => isTuple(schema) && i < schema.items.length ? schema.items[i] : restOf(schema);
+
+    const length = Math.max(isTuple(older) ? older.items.length : 0, isTuple(newer) ? newer.items.length : 0);
+    const positions = Array.from({ length }, (_, i) => compareSchemas(itemAt(older, i), itemAt(newer, i), childPath(path, i), ctx));
+
+    const a = restOf(older);
+    const b = restOf(newer);
+    const rest = isEqual(a, b) ? []
+        : b === false ? [ change(path, 'forward', 'extra items are no longer allowed') ]
+        : a === false ? [ change(path, 'backward', 'extra items are now allowed') ]
+        : compareSchemas(a, b, itemsPath(path), ctx);
+
+    return [...positions.reduce((all, changes) => [...all, ...changes], []), ...rest];
+};
+
+const compareAllOf = (older: any, newer: any, path: string, ctx: CompareContext): SchemaChange[] => {
+    const a: any[] = older.allOf || [];
+    const b: any[] = newer.allOf || [];
+
+    return [
+        ...a.slice(0, b.length).map((schema, i) => compareSchemas(schema, b[i], path, ctx)).reduce((all, changes) => [...all, ...changes], []),
+        ...b.slice(a.length).map(schema => change(path, 'forward', `must now also match ${describe(schema)}`)),
+        ...a.slice(b.length).map(schema => change(path, 'backward', `no longer needs to match ${describe(schema)}`)),
+    ];
+};
+
+const compareKeywords = (older: any, newer: any, path: string, ctx: CompareContext): SchemaChange[] => {
+    const types = compareTypes(older, newer, path);
+    // the remaining keywords mean something else for a different type, so there is nothing more to compare
+    if (types.some(c => c.compatibility === 'breaking')) return types;
+
+    const hasAny = (keywords: string[]) => keywords.some(key => key in older || key in newer);
+
+    const others = Object.keys({ ...older, ...newer })
+        .filter(key => !ignoredKeywords.includes(key) && !comparedKeywords.includes(key) && !isEqual(older[key], newer[key]))
+        .map(key => change(path, 'breaking', `${key} changed`));
+
+    return [
+        ...types,
+        ...compareValues(older, newer, path),
+        ...compareLimit(older, newer, 'minLength', true, path),
+        ...compareLimit(older, newer, 'maxLength', false, path),
+        ...compareRestriction(older, newer, 'pattern', path),
+        ...compareRestriction(older, newer, 'format', path),
+        ...compareBound(older, newer, true, path),
+        ...compareBound(older, newer, false, path),
+        ...compareMultipleOf(older, newer, path),
+        ...hasAny(['items', 'additionalItems']) ? compareArrays(older, newer, path, ctx) : [],
+        ...compareLimit(older, newer, 'minItems', true, path),
+        ...compareLimit(older, newer, 'maxItems', false, path),
+        ...compareRestriction(older, newer, 'uniqueItems', path),
+        ...hasAny(['properties', 'required', 'additionalProperties']) ? compareObjects(older, newer, path, ctx) : [],
+        ...compareLimit(older, newer, 'minProperties', true, path),
+        ...compareLimit(older, newer, 'maxProperties', false, path),
+        ...hasAny(['allOf']) ? compareAllOf(older, newer, path, ctx) : [],
+        ...compareRefinements(getAnnotations(older).refine.length, getAnnotations(newer).refine.length, path),
+        ...compareRefinements(getAnnotations(older).refineAsync.length, getAnnotations(newer).refineAsync.length, path),
+        ...others,
+    ];
+};
+
+/**
+ * no-doc - Compares two schemas for the data at the given path, listing every change that affects which data is valid.
+ */
+const compareSchemas = (olderSchema: any, newerSchema: any, path: string, ctx: CompareContext): SchemaChange[] => {
+    const older = resolve(olderSchema === true ? {} : olderSchema, 0, ctx);
+    const newer = resolve(newerSchema === true ? {} : newerSchema, 1, ctx);
+    if (isEqual(older, newer)) return [];
+
+    if (older === false) return [ change(path, 'backward', 'is now allowed') ];
+    if (newer === false) return [ change(path, 'forward', 'is no longer allowed') ];
+    if (isAnything(older)) return [ change(path, 'forward', `is now restricted to ${describe(newer)}`) ];
+    if (isAnything(newer)) return [ change(path, 'backward', `is no longer restricted to ${describe(older)}`) ];
+
+    const compared = ctx.compared.get(older) || new Set();
+    if (compared.has(newer)) return [];
+    ctx.compared.set(older, compared.add(newer));
+
+    if (older.discriminator && newer.discriminator) return compareTaggedUnions(older, newer, path, ctx);
+    if (isUnion(older) || isUnion(newer)) return compareUnions(older, newer, path, ctx);
+    return compareKeywords(older, newer, path, ctx);
+};
+
+/**
+ * Compares an old and a new version of a validator, and lists every change that affects which data is valid.
+ * Each change is `backward` compatible when the new schema still accepts all of the data that the old schema accepted,
+ * `forward` compatible when the new schema only accepts data that the old schema also accepted, and `breaking` otherwise.
+ *
+ * Refinements are functions, so only the number of refinements on each schema can be compared.
+ *
+ * @param older The validator for the previous version of the data.
+ * @param newer The validator for the next version of the data.
+ *
+ * @example
+ * ```typescript
+ * import * as v from 'validtyped';
+ *
+ * const v1 = v.object({ id: v.string(), role: v.string(['admin', 'user', 'guest']) });
+ * const v2 = v.object({ id: v.string(), role: v.string(['admin', 'user']), email: v.email() });
+ *
+ * const comparison = v.compare(v1, v2);
+ * // comparison.compatibility === 'forward'
+ * // comparison.changes === [
+ * //   { path: 'role', compatibility: 'forward', message: `no longer accepts 'guest'` },
+ * //   { path: 'email', compatibility: 'forward', message: 'is now restricted to string' },
+ * //   { path: '', compatibility: 'forward', message: `key 'email' is now required` },
+ * // ]
+ * ```
+ */
+export function compare(older: Validator<any, any>, newer: Validator<any, any>): SchemaComparison {
+    const roots: [any, any] = [ older.getSchema(), newer.getSchema() ];
+    const ctx: CompareContext = { roots, ids: [ collectIds(roots[0]), collectIds(roots[1]) ], compared: new Map() };
+
+    const changes = compareSchemas(roots[0], roots[1], '', ctx);
+    const kinds = new Set(changes.map(c => c.compatibility));
+
+    const compatibility = changes.length === 0 ? 'full'
+        : kinds.size === 1 ? changes[0].compatibility
+        : 'breaking';
+
+    return { compatibility, changes };
+}
@@ -0,0 +1,138 @@
+import * as Ajv from 'ajv';
+import { ValidationError } from './errors';
+import { Validator, ValidType } from './index';
+
+/**
+ * The typed, frozen object of variables returned by `env`.
+ */
+export type EnvType<V extends Record<string, Validator<any, any>>> = Readonly<{
+    [K in keyof V]: ValidType<V[K]>;
+}>;
+
+const booleans = new Map<string, boolean>([
+    ['true', true], ['yes', true], ['on', true], ['1', true],
+    ['false', false], ['no', false], ['off', false], ['0', false],
+]);
+
+const parseJson = (raw: string) => {
+    try {
+        return JSON.parse(raw);
+    } catch (e) {
+        return raw;
+    }
+};
+
+/**
+ * no-doc - Converts the string value of a variable to a single JSON type, or returns `undefined` if it cannot.
+ */
+const coerceType = (type: string, schema: any, raw: string): unknown => {
+    const trimmed = raw.trim();
+
+    switch (type) {
+        case 'number':
+        case 'integer': return trimmed !== '' && !isNaN(Number(trimmed)) ? Number(trimmed) : undefined;
+        case 'boolean': return booleans.get(trimmed.toLowerCase());
+        case 'null': return trimmed === 'null' ? null : undefined;
+        case 'object': return trimmed.startsWith('{') ? parseJson(trimmed) : undefined;
+        case 'array':
+            if (trimmed.startsWith('[')) return parseJson(trimmed);
+            // comma separated items are strings, so they are converted to the type of the items as well
+            return (trimmed === '' ? [] : trimmed.split(',')).map((item, i) => {
+                const items = Array.isArray(schema.items) ? schema.items[i] : schema.items;
+                return items ? coerce(items, item.trim()) : item.trim();
+            });
+        default: return undefined;
+    }
+};
+
+/**
+ * no-doc - Converts the string value of a variable to the type described by its schema.
+ * Strings that cannot be converted are returned unchanged, so that validation reports them as the wrong type.
+ */
+export const coerce = (schema: any, raw: string): unknown => {
+    const branches: any[] | undefined = schema.oneOf || schema.anyOf;
+    if (branches) {
+        // prefer the types that convert the string, so that a union of a number and a string reads numbers as numbers
+        const converted = branches.map(branch => coerce(branch, raw)).filter(value => value !== raw);
+        return converted.length > 0 ? converted[0] : raw;
+    }
+
+    const types: string[] = schema.type === undefined ? [] : [].concat(schema.type);
+    const coerced = types
+        .filter(type => type !== 'string')
+        .map(type => coerceType(type, schema, raw))
+        .find(value => value !== undefined);
+
+    return coerced === undefined ? raw : coerced;
+};
+
+const acceptsNull = (schema: any): boolean => {
+    const branches: any[] | undefined = schema.oneOf || schema.anyOf;
+    if (branches) return branches.some(acceptsNull);
+    return schema.type === 'null' || (Array.isArray(schema.type) && schema.type.includes('null'));
+};
+
+const keyPath = (key: string) => /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(key) ? `.${key}` : `['${key}']`;
+
+/**
+ * Reads typed variables from `process.env` (or any other record of strings), and returns them as a frozen object.
+ * Each string is converted to the type of its validator before being validated:
+ * numbers are parsed, booleans can be written as `true`/`false`, `yes`/`no`, `on`/`off` or `1`/`0`,
+ * and arrays can be written as JSON or as comma separated items.
+ *
+ * Missing variables take the default of their validator, or `null` if their validator accepts it.
+ * Throws a `ValidationError` listing every invalid or missing variable at once.
+ *
+ * @param validators The validator for each variable, by name.
+ * @param source [optional] The variables to read, which are `process.env` by default.
+ *
+ * @example
+ * ```typescript
+ * import * as v from 'validtyped';
+ *
+ * const config = v.env({
+ *   PORT: v.integer().default(8080),
+ *   DEBUG: v.boolean(),
+ *   HOSTS: v.array(v.string()),
+ * });
+ *
+ * // with DEBUG=yes and HOSTS=a.example.com,b.example.com
+ * // config => { PORT: 8080, DEBUG: true, HOSTS: ['a.example.com', 'b.example.com'] }
+ * ```
+ */
+export function env<V extends Record<string, Validator<any, any>>>(validators: V, source: Record<string, string | undefined> = process.env): EnvType<V> {
+    const values: Record<string, unknown> = {};
+    const errors: Ajv.ErrorObject[] = [];
+
+    Object.keys(validators).forEach(key => {
+        const validator = validators[key];
+        const schema: any = validator.getSchema();
+        const raw = source[key];
+
+        if (raw === undefined && !('default' in schema) && !acceptsNull(schema)) {
+            errors.push({
+                keyword: 'required',
+                dataPath: '',
+                schemaPath: '#/required',
+                params: { missingProperty: key },
+                message: `should have required property '${key}'`,
+            });
+            return;
+        }
+
+        const value = raw !== undefined ? coerce(schema, raw)
+            : 'default' in schema ? schema.default
+            : null;
+
+        const result = validator.validate(value);
+        if (result.valid) values[key] = result.data;
+        else errors.push(...result.errors.map(error => ({ ...error, dataPath: `${keyPath(key)}${error.dataPath}` })));
+    });
+
+    if (errors.length > 0) {
+        // only the declared variables are attached to the error, because the rest of the environment may hold secrets
+        const declared = Object.keys(validators).reduce((coll, key) => ({ ...coll, [key]: source[key] }), {} as Record<string, string | undefined>);
+        throw new ValidationError(errors, declared, 'environment');
+    }
+    return Object.freeze(values) as EnvType<V>;
+}
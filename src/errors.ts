@@ -0,0 +1,266 @@
+import * as Ajv from 'ajv';
+import { InvalidResult } from './index';
+
+/**
+ * A single human-readable validation failure.
+ * `path` is the location of the failing data, for instance `user.addresses[0].zip`, and is empty for the root of the data.
+ */
+export interface ErrorReport {
+    path: string;
+    message: string;
+    keyword: string;
+}
+
+/**
+ * A tree of validation failures mirroring the shape of the validated data.
+ * Each node holds the errors for its own `path`, and its `children` are keyed by property name or array index.
+ */
+export interface ErrorTree {
+    path: string;
+    errors: ErrorReport[];
+    children: Record<string, ErrorTree>;
+}
+
+/**
+ * no-doc - Splits an Ajv `dataPath` (for instance `.a['b-c'][0]`) into its property names and array indices.
+ */
+const pathSegments = (dataPath: string): Array<string | number> => {
+    const segments: Array<string | number> = [];
+    const matcher = /\.([^.[]+)|\[(\d+)\]|\['((?:[^'\\]|\\.)*)'\]/g;
+
+    let match = matcher.exec(dataPath);
+    while (match) {
+        if (match[1] !== undefined) segments.push(match[1]);
+        else if (match[2] !== undefined) segments.push(parseInt(match[2]));
+        else segments.push(match[3].replace(/\\(.)/g, '$1'));
+        match = matcher.exec(dataPath);
+    }
+
+    return segments;
+};
+
+const renderPath = (segments: Array<string | number>) => segments
+    .map((segment, i) => {
+        if (typeof segment === 'number') return `[${segment}]`;
+        if (!/^[A-Za-z_$][A-Za-z0-9_$]*$/.test(segment)) return `[${JSON.stringify(segment)}]`;
+        return i === 0 ? segment : `.${segment}`;
+    })
+    .join('');
+
+const typeName = (data: unknown) => {
+    if (data === null) return 'null';
+    if (Array.isArray(data)) return 'array';
+    return typeof data;
+};
+
+const renderValue = (value: unknown) => typeof value === 'string' ? `'${value}'` : JSON.stringify(value);
+
+/**
+ * no-doc - Builds a human-readable message for a single Ajv error.
+ * The received data is only available when Ajv is run with the `verbose` option, which every `Validator` uses.
+ */
+const describe = (error: Ajv.ErrorObject): string => {
+    const params: any = error.params;
+    const got = 'data' in error ? `, got ${typeName(error.data)}` : '';
+
+    switch (error.keyword) {
+        case 'type': return `expected ${params.type}${got}`;
+        // Ajv reports the missing key in path form (`.key`) when it is not also listed in `properties`
+        case 'required': return `missing required key '${/^[.[]/.test(params.missingProperty) ? pathSegments(params.missingProperty)[0] : params.missingProperty}'`;
+        case 'additionalProperties': return `unknown key '${params.additionalProperty}'`;
+        case 'enum': return 'data' in error
+            ? `unknown value ${renderValue(error.data)}, expected one of ${params.allowedValues.map(renderValue).join(', ')}`
+            : `expected one of ${params.allowedValues.map(renderValue).join(', ')}`;
+        case 'const': return `expected ${renderValue(params.allowedValue)}${got}`;
+        case 'discriminator': return `unknown ${params.tag} ${renderValue(params.tagValue)}, expected one of ${params.allowedValues.map(renderValue).join(', ')}`;
+        case 'oneOf': return params.passingSchemas
+            ? 'matches more than one of the possible types'
+            : 'does not match any of the possible types';
+        case 'anyOf': return 'does not match any of the possible types';
+        default: return error.message || `failed ${error.keyword} validation`;
+    }
+};
+
+/**
+ * no-doc - Splits the errors reported by the branches of a `oneOf` or `anyOf` keyword by branch index.
+ */
+const branchErrors = (union: Ajv.ErrorObject, errors: Ajv.ErrorObject[]) => {
+    const prefix = `${union.schemaPath}/`;
+    const branches: Record<string, Ajv.ErrorObject[]> = {};
+
+    errors
+        .filter(error => error.schemaPath.startsWith(prefix))
+        .forEach(error => {
+            const branch = error.schemaPath.substr(prefix.length).split('/')[0];
+            branches[branch] = [...(branches[branch] || []), error];
+        });
+
+    return Object.keys(branches).map(key => branches[key]);
+};
+
+/**
+ * no-doc - Scores how relevant the errors of a union branch are.
+ * A branch that got further into the data before failing is more likely to be the type that was intended,
+ * and a branch that rejected the type of the data outright is the least likely.
+ */
+const branchScore = (union: Ajv.ErrorObject, errors: Ajv.ErrorObject[]) => {
+    const wrongType = errors.some(error => error.keyword === 'type' && error.dataPath === union.dataPath);
+    const depth = Math.max(...errors.map(error => pathSegments(error.dataPath).length));
+    return wrongType ? -1 : depth;
+};
+
+/**
+ * no-doc - Removes the noise from union keywords by keeping only the errors of the most relevant branch of each union.
+ */
+const pickRelevantErrors = (errors: Ajv.ErrorObject[]) => {
+    const unions = errors
+        .filter(error => error.keyword === 'oneOf' || error.keyword === 'anyOf')
+        .sort((a, b) => a.schemaPath.length - b.schemaPath.length);
+
+    return unions.reduce((remaining, union) => {
+        if (!remaining.includes(union)) return remaining;
+
+        const branches = branchErrors(union, remaining);
+        if (branches.length === 0) return remaining;
+
+        // when the data has the wrong type for every branch, a single error listing all of the expected types is clearer
+        if (branches.every(branch => branchScore(union, branch) === -1)) {
+            const types = branches
+                .map(branch => branch.find(error => error.keyword === 'type' && error.dataPath === union.dataPath)!)
+                .map(error => (error.params as Ajv.TypeParams).type)
+                .filter((type, i, all) => all.indexOf(type) === i);
+
+            const typeError: Ajv.ErrorObject = { ...union, keyword: 'type', params: { type: types.join(' | ') } };
+            const discarded = branches.reduce((all, branch) => [...all, ...branch], [] as Ajv.ErrorObject[]);
+            return remaining
+                .filter(error => !discarded.includes(error))
+                .map(error => error === union ? typeError : error);
+        }
+
+        const best = branches.reduce((a, b) => {
+            const scoreA = branchScore(union, a);
+            const scoreB = branchScore(union, b);
+            if (scoreA !== scoreB) return scoreA > scoreB ? a : b;
+            return b.length < a.length ? b : a;
+        });
+
+        const discarded = branches.filter(branch => branch !== best).reduce((all, branch) => [...all, ...branch], [union]);
+        return remaining.filter(error => !discarded.includes(error));
+    }, errors)
+        // an `if` error only says that the `then` schema failed, which is explained by the `then` errors themselves
+        .filter(error => error.keyword !== 'if');
+};
+
+/**
+ * Converts the raw errors of an `InvalidResult` into a list of human-readable error reports.
+ * For unions, only the errors of the branch that most closely matched the data are reported.
+ * @param result The `InvalidResult` returned by `validate`.
+ * @returns a list of reports, each with the path of the failing data and a message.
+ *
+ * @example
+ * ```typescript
+ * import * as v from 'validtyped';
+ *
+ * const result = v.object({ zip: v.string() }).validate({ zip: 22 });
+ * if (!result.valid) v.errorReports(result); // [{ path: 'zip', message: 'expected string, got number', keyword: 'type' }]
+ * ```
+ */
+export function errorReports(result: InvalidResult): ErrorReport[] {
+    return pickRelevantErrors(result.errors).map(error => ({
+        path: renderPath(pathSegments(error.dataPath)),
+        message: describe(error),
+        keyword: error.keyword,
+    }));
+}
+
+/**
+ * Converts the raw errors of an `InvalidResult` into a tree of error reports that mirrors the shape of the validated data.
+ * @param result The `InvalidResult` returned by `validate`.
+ * @returns the root of the error tree.
+ *
+ * @example
+ * ```typescript
+ * import * as v from 'validtyped';
+ *
+ * const validator = v.object({ user: v.object({ address: v.object({ zip: v.string() }) }) });
+ * const result = validator.validate({ user: { address: { zip: 22 } } });
+ * if (!result.valid) {
+ *   const tree = v.errorTree(result);
+ *   tree.children.user.children.address.children.zip.errors; // [{ path: 'user.address.zip', message: 'expected string, got number', ... }]
+ * }
+ * ```
+ */
+export function errorTree(result: InvalidResult): ErrorTree {
+    const root: ErrorTree = { path: '', errors: [], children: {} };
+
+    pickRelevantErrors(result.errors).forEach(error => {
+        const segments = pathSegments(error.dataPath);
+
+        const node = segments.reduce((parent, segment, i) => {
+            const key = String(segment);
+            if (!parent.children[key]) {
+                parent.children[key] = { path: renderPath(segments.slice(0, i + 1)), errors: [], children: {} };
+            }
+            return parent.children[key];
+        }, root);
+
+        node.errors.push({
+            path: node.path,
+            message: describe(error),
+            keyword: error.keyword,
+        });
+    });
+
+    return root;
+}
+
+/**
+ * Renders the errors of an `InvalidResult` for display.
+ * The `text` format has one line per error, for instance `user.address.zip: expected string, got number`.
+ * The `json` format is the serialized `ErrorTree`.
+ * @param result The `InvalidResult` returned by `validate`.
+ * @param format [optional] Either `text` (default) or `json`.
+ *
+ * @example
+ * ```typescript
+ * import * as v from 'validtyped';
+ *
+ * const result = validator.validate(data);
+ * if (!result.valid) logger.error(v.formatErrors(result));
+ * ```
+ */
+export function formatErrors(result: InvalidResult, format: 'text' | 'json' = 'text'): string {
+    if (format === 'json') return JSON.stringify(errorTree(result));
+
+    return errorReports(result)
+        .map(report => report.path ? `${report.path}: ${report.message}` : report.message)
+        .join('\n');
+}
+
+/**
+ * The error thrown by `Validator.parse` and `Validator.assert` when data does not match the schema.
+ * Carries the raw validation errors, the value that failed validation, and the `title` of the validator's schema (if it has one).
+ *
+ * @param errors The raw errors reported by the json schema validator.
+ * @param value The data that failed validation.
+ * @param title [optional] The `title` meta-data of the validator's schema.
+ *
+ * @example
+ * ```typescript
+ * import * as v from 'validtyped';
+ *
+ * app.use((err, req, res, next) => {
+ *   if (err instanceof v.ValidationError) res.status(400).send(v.errorReports({ errors: err.errors, valid: false }));
+ *   else next(err);
+ * });
+ * ```
+ */
+export class ValidationError extends Error {
+    constructor(readonly errors: Ajv.ErrorObject[], readonly value: unknown, readonly title?: string) {
+        super(`${title ? `Invalid ${title}` : 'Validation failed'}:\n${formatErrors({ errors, valid: false })}`);
+
+        // restore the prototype chain, which is lost when extending built-ins while targeting es5
+        Object.setPrototypeOf(this, ValidationError.prototype);
+        this.name = 'ValidationError';
+    }
+}
@@ -0,0 +1,85 @@
+import { ValidationError } from './errors';
+import { tuple, TupleType, TupleValidators, TupleWireType, Validator } from './index';
+
+/**
+ * Describes the parameters and return value of a function, and wraps implementations of it so that both are checked at every call.
+ * Created with `func`.
+ */
+export class FunctionValidator<P extends TupleValidators, T, J = T> {
+    constructor(readonly parameters: Validator<TupleType<P>, TupleWireType<P>>, readonly returns: Validator<T, J>) {}
+
+    /**
+     * Wraps a function so that its arguments are parsed with the parameter validators before it is called,
+     * and its return value (or the value that its promise resolves to) is encoded and checked with the return validator.
+     * Throws (or rejects with) a `ValidationError` when either does not match.
+     *
+     * With codecs, the wrapped function takes and returns the JSON (wire) types, while `fn` works with the decoded types:
+     * the arguments are decoded before `fn` is called, and its return value is encoded before being returned.
+     * @param fn The implementation, which receives the valid (decoded) arguments.
+     *
+     * @example
+     * ```typescript
+     * import * as v from 'validtyped';
+     *
+     * const onSave = v.func([v.string(), v.object({ size: v.number() })], v.boolean()).implement(plugin.onSave);
+     *
+     * onSave('report.pdf', { size: 1024 }); // typeof onSave => `(a: string, b: { size: number }) => boolean`
+     * onSave('report.pdf', { size: '1kb' } as any); // throws a ValidationError
+     * ```
+     */
+    implement(fn: (...args: Extract<TupleType<P>, any[]>) => Promise<T>): (...args: Extract<TupleWireType<P>, any[]>) => Promise<J>;
+    implement(fn: (...args: Extract<TupleType<P>, any[]>) => T): (...args: Extract<TupleWireType<P>, any[]>) => J;
+    implement(fn: (...args: any[]) => any): (...args: any[]) => any {
+        const parameters = this.parameters;
+        const returns = this.returns;
+
+        const encodeReturn = (value: T) => {
+            try {
+                return returns.encode(value);
+            } catch (e) {
+                // a codec cannot encode a value of the wrong type, so that is reported as an invalid return value
+                const error = { keyword: 'codec', dataPath: '', schemaPath: '#', params: { keyword: 'codec' }, message: `cannot be encoded: ${e.message}` };
+                throw new ValidationError([error], value, 'return value');
+            }
+        };
+
+        const checkReturn = (value: T) => {
+            const encoded = encodeReturn(value);
+            const result = returns.validate(encoded);
+            if (!result.valid) throw new ValidationError(result.errors, value, 'return value');
+            return encoded;
+        };
+
+        return function(this: unknown, ...args: any[]) {
+            const result = parameters.validate(args);
+            if (!result.valid) throw new ValidationError(result.errors, args, 'arguments');
+
+            const returned = fn.apply(this, result.data as unknown as any[]);
+            return returned && typeof returned.then === 'function'
+                ? returned.then(checkReturn)
+                : checkReturn(returned);
+        };
+    }
+}
+
+/**
+ * Creates a `FunctionValidator` for functions with the given parameters and return value.
+ * Its `implement` method wraps a function so that its arguments and return value are checked at every call,
+ * which guards both sides of a boundary with code that is not type checked, such as plugins or callbacks given to third-party code.
+ *
+ * @param parameters A tuple of `Validator` instances, one for each parameter of the function.
+ * @param returns A `Validator` instance for the value that the function returns, or that its promise resolves to.
+ *
+ * @example
+ * ```typescript
+ * import * as v from 'validtyped';
+ *
+ * const hook = v.func([v.string(), v.number()], v.boolean());
+ *
+ * const isAllowed = hook.implement((user, level) => level > 2); // typeof isAllowed => `(a: string, b: number) => boolean`
+ * const isAllowedAsync = hook.implement(async (user, level) => level > 2); // typeof isAllowedAsync => `(a: string, b: number) => Promise<boolean>`
+ * ```
+ */
+export function func<P extends TupleValidators, T, J = T>(parameters: P, returns: Validator<T, J>): FunctionValidator<P, T, J> {
+    return new FunctionValidator<P, T, J>(tuple(parameters), returns);
+}
@@ -0,0 +1,266 @@
+import * as Ajv from 'ajv';
+import { IncomingMessage, ServerResponse } from 'http';
+import * as querystring from 'querystring';
+import { coerce } from './env';
+import { errorReports, ValidationError } from './errors';
+import { Validator } from './index';
+
+/**
+ * The validators for each part of a request, and for the body of its response.
+ * `params`, `query` and `headers` are objects of strings, which are converted to the types of their validators before being validated.
+ * Header names are always lower case.
+ */
+export interface RequestValidators {
+    params?: Validator<any, any>;
+    query?: Validator<any, any>;
+    headers?: Validator<any, any>;
+    body?: Validator<any, any>;
+    response?: Validator<any, any>;
+}
+
+/**
+ * Options for `requestValidator` and `requestHandler`.
+ * `limit` is the largest body in bytes that is read from a request, which is 100kB by default.
+ * Requests with a larger body are answered with status 413.
+ */
+export interface RequestOptions {
+    limit?: number;
+}
+
+const defaultLimit = 100 * 1024;
+
+/**
+ * no-doc - Gets the valid type of one part of a request, or `unknown` when that part is not validated.
+ */
+type ValidPart<R, K extends keyof RequestValidators> = R extends { [P in K]: Validator<infer T, any> } ? T : unknown;
+
+/**
+ * The validated (and converted) parts of a request, which are available as `req.valid`.
+ */
+export interface ValidRequestData<R extends RequestValidators> {
+    params: ValidPart<R, 'params'>;
+    query: ValidPart<R, 'query'>;
+    headers: ValidPart<R, 'headers'>;
+    body: ValidPart<R, 'body'>;
+}
+
+/**
+ * A request as seen by Node's `http` module, or by frameworks that add the route `params`, the parsed `query` and the parsed `body`.
+ * The body is read from the request when no framework has parsed it already.
+ */
+export type IncomingRequest = IncomingMessage & {
+    params?: Record<string, string>;
+    query?: Record<string, unknown>;
+    body?: unknown;
+};
+
+/**
+ * A request whose parts have been validated by `requestValidator`.
+ */
+export type ValidatedRequest<R extends RequestValidators> = IncomingRequest & { valid: ValidRequestData<R> };
+
+/**
+ * A response that can send its body as JSON with `sendValid`, after checking it against the `response` validator.
+ */
+export type ValidatedResponse<R extends RequestValidators> = ServerResponse & {
+    sendValid(data: ValidPart<R, 'response'>, status?: number): void;
+};
+
+/**
+ * A function that continues to the next handler, or reports an error to it.
+ */
+export type NextFunction = (err?: unknown) => void;
+
+/**
+ * Express-style middleware, which takes a request, its response, and a function to continue to the next handler.
+ */
+export type Middleware = (req: IncomingRequest, res: ServerResponse, next: NextFunction) => void;
+
+/**
+ * no-doc - A problem with the body of a request, which is answered with its status (like invalid requests) rather than passed to `next`.
+ */
+class BodyError extends Error {
+    constructor(readonly status: number, readonly error: Ajv.ErrorObject) {
+        super(`Invalid body: ${error.message}`);
+        Object.setPrototypeOf(this, BodyError.prototype);
+    }
+}
+
+const bodyError = (status: number, keyword: string, message: string, params: Record<string, unknown> = {}) =>
+    new BodyError(status, { keyword, dataPath: '.body', schemaPath: `#/${keyword}`, params, message });
+
+const sendJson = (res: ServerResponse, status: number, data: unknown) => {
+    res.statusCode = status;
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify(data));
+};
+
+const parseQuery = (req: IncomingRequest) => {
+    if (req.query) return req.query;
+
+    const url = req.url || '';
+    const search = url.indexOf('?');
+    return search === -1 ? {} : querystring.parse(url.slice(search + 1));
+};
+
+/**
+ * no-doc - Reads the body of a request as JSON, unless a framework has already parsed it.
+ * Resolves to `undefined` for an empty body, and rejects with a `BodyError` when the body is too large or is not JSON.
+ */
+const readBody = (req: IncomingRequest, limit: number): Promise<unknown> => {
+    if (req.body !== undefined) return Promise.resolve(req.body);
+
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        let length = 0;
+
+        // the rest of a body that is too large is still read, but is not kept
+        req.on('data', (chunk: Buffer) => {
+            length += chunk.length;
+            if (length > limit) return reject(bodyError(413, 'limit', `is larger than ${limit} bytes`, { limit }));
+            chunks.push(chunk);
+        });
+        req.on('error', reject);
+        req.on('end', () => {
+            if (length > limit) return;
+
+            const text = Buffer.concat(chunks).toString('utf8');
+            if (text.trim() === '') return resolve(undefined);
+
+            try {
+                resolve(JSON.parse(text));
+            } catch (e) {
+                reject(bodyError(400, 'json', 'is not valid JSON'));
+            }
+        });
+    });
+};
+
+/**
+ * no-doc - Converts each string of an object (such as the query) to the type of its property.
+ * Keys that are repeated in a query string are parsed as arrays, whose items are converted to the type of the array's items.
+ */
+const coerceRecord = (schema: any, record: Record<string, unknown>) => Object.keys(record).reduce((coerced, key) => {
+    const properties = schema.properties || {};
+    const property = key in properties ? properties[key]
+        : typeof schema.additionalProperties === 'object' ? schema.additionalProperties
+        : undefined;
+
+    const value = record[key];
+    if (!property) return { ...coerced, [key]: value };
+    if (typeof value === 'string') return { ...coerced, [key]: coerce(property, value) };
+    if (Array.isArray(value) && typeof property.items === 'object' && !Array.isArray(property.items)) {
+        return { ...coerced, [key]: value.map(item => typeof item === 'string' ? coerce(property.items, item) : item) };
+    }
+    return { ...coerced, [key]: value };
+}, {} as Record<string, unknown>);
+
+const prefixErrors = (part: string, errors: Ajv.ErrorObject[]) => errors.map(error => ({ ...error, dataPath: `.${part}${error.dataPath}` }));
+
+/**
+ * Creates Express-style middleware that validates the `params`, `query`, `headers` and `body` of a request,
+ * which works with Node's `http` module as well as with frameworks built on top of it.
+ * Valid (and converted) parts are available to the following handlers as `req.valid`, and `res.sendValid` sends a JSON body
+ * after checking it against the `response` validator, passing a `ValidationError` to `next` when it does not match.
+ *
+ * Invalid requests are answered with status 400 and a JSON body of `{ errors }`, where `errors` are the `errorReports` of every part of the request.
+ * The path of each error starts with the part of the request that it is for, for instance `body.name` or `query.limit`.
+ * Each part is validated with `validateAsync`, so validators created with `refineAsync` can be used.
+ *
+ * @param validators The validators for each part of the request, and for the body of the response.
+ * @param options [optional] The `limit` of the size of the body in bytes.
+ *
+ * @example
+ * ```typescript
+ * import * as v from 'validtyped';
+ *
+ * const getUsers = { query: v.object({ limit: v.integer() }), response: v.array(user) };
+ *
+ * app.get('/users', v.requestValidator(getUsers), (req: v.ValidatedRequest<typeof getUsers>, res: v.ValidatedResponse<typeof getUsers>) => {
+ *   res.sendValid(users.slice(0, req.valid.query.limit));
+ * });
+ * ```
+ */
+export function requestValidator<R extends RequestValidators>(validators: R, options: RequestOptions = {}): Middleware {
+    const parts: Array<keyof ValidRequestData<R>> = ['params', 'query', 'headers', 'body'];
+    const limit = options.limit === undefined ? defaultLimit : options.limit;
+
+    const validateParts = (raw: Record<keyof ValidRequestData<R>, unknown>) => Promise.all(parts.map(part => {
+        const validator = validators[part];
+        if (!validator) return { part, result: { valid: true as const, data: raw[part] } };
+
+        const value = part === 'body' ? raw.body : coerceRecord(validator.getSchema(), raw[part] as Record<string, unknown>);
+        return validator.validateAsync(value).then(result => ({ part, result }));
+    }));
+
+    return (req, res, next) => {
+        const body = validators.body ? readBody(req, limit) : Promise.resolve(req.body);
+
+        body.then(data => validateParts({ params: req.params || {}, query: parseQuery(req), headers: req.headers, body: data })).then(results => {
+            const valid: Record<string, unknown> = {};
+            const errors: Ajv.ErrorObject[] = [];
+
+            results.forEach(({ part, result }) => {
+                if (result.valid) valid[part] = result.data;
+                else errors.push(...prefixErrors(part, result.errors));
+            });
+
+            if (errors.length > 0) return sendJson(res, 400, { errors: errorReports({ errors, valid: false }) });
+
+            const response = validators.response;
+            Object.assign(req, { valid });
+            Object.assign(res, {
+                sendValid: (value: unknown, status = 200) => {
+                    if (!response) return sendJson(res, status, value);
+
+                    const encoded = response.encode(value);
+                    const result = response.validate(encoded);
+                    if (!result.valid) return next(new ValidationError(result.errors, value, 'response'));
+                    sendJson(res, status, encoded);
+                },
+            });
+            next();
+        }).catch(err => {
+            if (!(err instanceof BodyError)) return next(err);
+            sendJson(res, err.status, { errors: errorReports({ errors: [ err.error ], valid: false }) });
+        });
+    };
+}
+
+/**
+ * Creates a request handler for Node's `http` module (or Express-style frameworks) that validates each request with `requestValidator`,
+ * and then calls the given handler with the typed `req.valid` and `res.sendValid`.
+ * Errors thrown (or rejected) by the handler are passed to `next`, or answered with status 500 when there is no `next`.
+ *
+ * @param validators The validators for each part of the request, and for the body of the response.
+ * @param handler The function that handles valid requests.
+ * @param options [optional] The `limit` of the size of the body in bytes.
+ *
+ * @example
+ * ```typescript
+ * import * as http from 'http';
+ * import * as v from 'validtyped';
+ *
+ * const server = http.createServer(v.requestHandler({ body: v.object({ name: v.string() }), response: user }, async (req, res) => {
+ *   res.sendValid(await users.create(req.valid.body.name), 201);
+ * }));
+ * ```
+ */
+export function requestHandler<R extends RequestValidators>(validators: R, handler: (req: ValidatedRequest<R>, res: ValidatedResponse<R>) => void | Promise<void>, options: RequestOptions = {}) {
+    const validate = requestValidator(validators, options);
+
+    return (req: IncomingRequest, res: ServerResponse, next?: NextFunction) => {
+        const fail: NextFunction = next || (() => {
+            if (res.headersSent) return res.end();
+            res.statusCode = 500;
+            res.end();
+        });
+
+        validate(req, res, err => {
+            if (err !== undefined) return fail(err);
+            Promise.resolve()
+                .then(() => handler(req as ValidatedRequest<R>, res as ValidatedResponse<R>))
+                .catch(fail);
+        });
+    };
+}
@@ -1,4 +1,4 @@
-import { objectKeys, Nominal, AnyFunc, AllRequired, Optional, PlainObject, Omit } from 'simplytyped';
+import { objectKeys, Nominal, AnyFunc, AllRequired, DeepPartial, Optional, PlainObject, Omit, UnionToIntersection } from 'simplytyped';
 import * as Ajv from 'ajv';
 
 // Schema definitions
@@ -9,6 +9,26 @@ import { BooleanSchema } from 'type-level-schema/defs/boolean';
 import { ArraySchema } from 'type-level-schema/defs/array';
 import { ObjectSchema } from 'type-level-schema/defs/object';
 
+import { annotate, copyAnnotations, getAnnotations, Refinement } from './annotations';
+import { copyNominalName, setNominalName } from './codegen';
+export { toTypeScript } from './codegen';
+export {
+    IncomingRequest, Middleware, NextFunction, RequestOptions, RequestValidators, requestHandler, requestValidator,
+    ValidatedRequest, ValidatedResponse, ValidRequestData,
+} from './http';
+export { HttpMethod, OpenApiDocument, OpenApiInfo, Route, toOpenApi } from './openapi';
+export { compare, Compatibility, SchemaChange, SchemaComparison } from './compare';
+export { env, EnvType } from './env';
+export { func, FunctionValidator } from './func';
+export { Arbitrary, arbitrary, CheckOptions, sample, SampleOptions } from './sample';
+export { LatestVersion, MigratedResult, Migrations, versioned, VersionedOptions, VersionedValidator, Versions } from './versioned';
+import { ValidationError } from './errors';
+import { renderStandaloneModule, StandaloneModule } from './standalone';
+export { StandaloneModule } from './standalone';
+import { Codec, copyData, resolvePointer, SchemaMatcher, transformData, transformsData, usesCodecs, usesDefaults } from './transform';
+export { Codec } from './transform';
+export { ErrorReport, ErrorTree, errorReports, errorTree, formatErrors, ValidationError } from './errors';
+
 /**
  * no-doc - Gets the full schema definition for a given type.
  */
@@ -20,11 +40,63 @@ export type TypeToSchema<T> =
     T extends object ? ObjectSchema :
         never;
 
+/**
+ * The schema of an integer, which has the same keywords as the schema of a number.
+ * `integer` is not one of the schema types of type-level-schema, so it is added to the schemas that a `Validator` accepts.
+ */
+export type IntegerSchema = Omit<NumberSchema, 'type'> & { type: 'integer' } & Partial<SchemaMetaData>;
+
+/**
+ * The JSON schemas that a `Validator` can be created from.
+ */
+export type ValidatorSchema = Schema | IntegerSchema;
+
 /**
  * no-doc - Gets the optional parts of the schema definition for a given type.
  */
 export type TypeToSchemaOptions<T> = Omit<TypeToSchema<T>, 'type'>;
 
+/**
+ * no-doc - Maps JSON schema `type` names to their typescript types.
+ */
+export interface SchemaTypeNames {
+    string: string;
+    number: number;
+    integer: number;
+    boolean: boolean;
+    null: null;
+    array: any[];
+    object: PlainObject;
+}
+
+/**
+ * no-doc - Gets the typescript type described by a JSON schema literal.
+ * The schema should be declared `as const` so that its literal types are not widened.
+ * @param S a JSON schema literal type
+ */
+export type SchemaType<S> =
+    S extends { enum: ReadonlyArray<infer E> } ? E :
+    S extends { const: infer C } ? C :
+    S extends { allOf: ReadonlyArray<any> } ? UnionToIntersection<{ [K in keyof S['allOf']]: SchemaType<S['allOf'][K]> }[number]> :
+    S extends { oneOf: ReadonlyArray<any> } ? { [K in keyof S['oneOf']]: SchemaType<S['oneOf'][K]> }[number] :
+    S extends { anyOf: ReadonlyArray<any> } ? { [K in keyof S['anyOf']]: SchemaType<S['anyOf'][K]> }[number] :
+    S extends { type: 'array', items: infer I } ? (I extends ReadonlyArray<any> ? { -readonly [K in keyof I]: SchemaType<I[K]> } : SchemaTypeArray<I>) :
+    S extends { type: 'object', properties: infer P } ? Optional<{ -readonly [K in keyof P]: SchemaType<P[K]> }, Exclude<keyof P, SchemaRequiredKeys<S>>> :
+    S extends { type: 'object', additionalProperties: infer A } ? (A extends object ? { [key: string]: SchemaType<A> } : PlainObject) :
+    S extends { type: infer N } ? (N extends ReadonlyArray<infer M> ? SchemaTypeNames[M & keyof SchemaTypeNames] : SchemaTypeNames[N & keyof SchemaTypeNames]) :
+        unknown;
+
+/**
+ * no-doc - An array of the typescript type described by a JSON schema.
+ * Declared as an interface so that `SchemaType` can refer to itself.
+ */
+export interface SchemaTypeArray<S> extends Array<SchemaType<S>> {}
+
+/**
+ * no-doc - Gets the union of keys listed in the `required` array of a JSON schema literal.
+ */
+export type SchemaRequiredKeys<S> = S extends { required: ReadonlyArray<infer R> } ? R : never;
+
 /**
  * no-doc - Generates an object type from `[string, Validator]` pairs
  * @param O a Validator record
@@ -41,12 +113,92 @@ export type ObjectValidator<O extends Record<string, Validator<any>>> = {
  */
 export type OptionalObjectValidator<O extends Record<string, Validator<any>>, OptionalKeys extends keyof O> = Optional<ObjectValidator<O>, OptionalKeys>;
 
+/**
+ * no-doc - Generates the JSON type of an object from `[string, Validator]` pairs
+ * @param O a Validator record
+ * @returns a record with keys of `O` pointing to the `WireType` of that key
+ */
+export type ObjectWireType<O extends Record<string, Validator<any>>> = {
+    [S in keyof O]: WireType<O[S]>;
+};
+
+/**
+ * no-doc - Generates the JSON type of an object from `[string, Validator]` pairs, marking specified keys as optional
+ * @param O a Validator record
+ * @param OptionalKeys a union of keys that should be marked optional
+ */
+export type OptionalObjectWireType<O extends Record<string, Validator<any>>, OptionalKeys extends keyof O> = Optional<ObjectWireType<O>, OptionalKeys>;
+
+/**
+ * no-doc - A list of Validators that should be inferred as a tuple rather than as an array.
+ */
+export type TupleValidators = [Validator<any>, ...Array<Validator<any>>] | [];
+
+/**
+ * no-doc - Generates a tuple type from a tuple of Validators
+ * @param V a tuple of Validators
+ * @returns a tuple where each position is the `ValidType` of the Validator at that position
+ */
+export type TupleType<V extends TupleValidators> = {
+    [K in keyof V]: V[K] extends Validator<infer T, any> ? T : never;
+};
+
+/**
+ * no-doc - Generates the JSON type of a tuple from a tuple of Validators
+ * @param V a tuple of Validators
+ * @returns a tuple where each position is the `WireType` of the Validator at that position
+ */
+export type TupleWireType<V extends TupleValidators> = {
+    [K in keyof V]: V[K] extends Validator<any, infer J> ? J : never;
+};
+
+/**
+ * no-doc - Appends a rest element to a tuple type.
+ * Tuples longer than eight positions fall back to an array of the union of all element types.
+ * @param T a tuple type
+ * @param R the type of each rest element
+ */
+export type TupleWithRest<T, R> =
+    T extends [] ? R[] :
+    T extends [infer A] ? [A, ...R[]] :
+    T extends [infer A, infer B] ? [A, B, ...R[]] :
+    T extends [infer A, infer B, infer C] ? [A, B, C, ...R[]] :
+    T extends [infer A, infer B, infer C, infer D] ? [A, B, C, D, ...R[]] :
+    T extends [infer A, infer B, infer C, infer D, infer E] ? [A, B, C, D, E, ...R[]] :
+    T extends [infer A, infer B, infer C, infer D, infer E, infer F] ? [A, B, C, D, E, F, ...R[]] :
+    T extends [infer A, infer B, infer C, infer D, infer E, infer F, infer G] ? [A, B, C, D, E, F, G, ...R[]] :
+    T extends [infer A, infer B, infer C, infer D, infer E, infer F, infer G, infer H] ? [A, B, C, D, E, F, G, H, ...R[]] :
+    T extends any[] ? Array<T[number] | R> :
+        never;
+
+/**
+ * no-doc - Generates a discriminated union from a record of Validators keyed by tag value
+ * @param K the name of the discriminating key
+ * @param M a record whose keys are the possible values of `K` and whose values are the Validators of each variant
+ */
+export type TaggedUnionType<K extends string, M extends Record<string, Validator<any>>> = {
+    [S in Extract<keyof M, string>]: ValidType<M[S]> & Record<K, S>;
+}[Extract<keyof M, string>];
+
+/**
+ * no-doc - Generates the JSON type of a discriminated union from a record of Validators keyed by tag value
+ * @param K the name of the discriminating key
+ * @param M a record whose keys are the possible values of `K` and whose values are the Validators of each variant
+ */
+export type TaggedUnionWireType<K extends string, M extends Record<string, Validator<any>>> = {
+    [S in Extract<keyof M, string>]: WireType<M[S]> & Record<K, S>;
+}[Extract<keyof M, string>];
+
 /**
  * no-doc - Specify the optional parameters for `object` function
  * @param OptionalKeys a union of strings for keys that should be marked optional
+ * @param Defaults an object containing default values for some keys
  */
-export type ObjectOptions<OptionalKeys> = Partial<{
+export type ObjectOptions<OptionalKeys, Defaults = {}> = Partial<{
     optional: OptionalKeys[];
+    defaults: Defaults;
+    strict: boolean;
+    strip: boolean;
 }>;
 
 /**
@@ -93,6 +245,405 @@ const once = <F extends AnyFunc>(f: F): F => {
     }) as any;
 };
 
+/**
+ * no-doc - Runs the refinements listed by a `refine` keyword, reporting the message of each one that fails.
+ * The keyword is only added to the copy of a schema that is compiled, see `withRefinementKeywords`.
+ */
+const refineKeyword: Ajv.KeywordDefinition = {
+    errors: true,
+    validate: function validateRefinements(refinements: Array<Refinement<boolean>>, data: any) {
+        const failed = refinements.filter(refinement => !refinement.predicate(data));
+
+        (validateRefinements as Ajv.ValidateFunction).errors = failed.map(refinement => ({
+            keyword: 'refine',
+            message: refinement.message,
+            params: { keyword: 'refine' },
+        } as Ajv.ErrorObject));
+
+        return failed.length === 0;
+    },
+};
+
+/**
+ * no-doc - Runs the asynchronous refinements listed by a `refineAsync` keyword, reporting the message of each one that fails.
+ * Ajv only allows this keyword in schemas that are compiled as `$async`.
+ */
+const refineAsyncKeyword: Ajv.KeywordDefinition = {
+    async: true,
+    errors: true,
+    validate: (refinements: Array<Refinement<Promise<boolean>>>, data: any) => Promise.all(refinements.map(refinement => refinement.predicate(data)))
+        .then(results => {
+            const errors = refinements
+                .filter((refinement, i) => !results[i])
+                .map(refinement => ({
+                    keyword: 'refineAsync',
+                    message: refinement.message,
+                    params: { keyword: 'refineAsync' },
+                } as Ajv.ErrorObject));
+
+            if (errors.length > 0) throw new Ajv.ValidationError(errors);
+            return true;
+        }),
+};
+
+/**
+ * no-doc - Checks that the tag of a `taggedUnion` is one of the known tag values.
+ * The known values are read from the `if` conditions that dispatch to each variant.
+ * The check is generated inline, rather than calling a function, so that it can be written to standalone modules.
+ */
+const discriminatorKeyword: Ajv.KeywordDefinition = {
+    errors: 'full',
+    statements: true,
+    inline: (it: any, keyword: string, discriminator: { propertyName: string }, parentSchema: any) => {
+        const tag = JSON.stringify(discriminator.propertyName);
+        const allowedValues = JSON.stringify(parentSchema.allOf.map((branch: any) => branch.if.properties[discriminator.propertyName].const));
+        const data = `data${it.dataLevel || ''}`;
+        const valid = `valid${it.level}`;
+
+        const error = `{ keyword: 'discriminator', dataPath: (dataPath || '') + ${it.errorPath}, schemaPath: ${JSON.stringify(`${it.errSchemaPath}/${keyword}`)}, `
+            + `params: { tag: ${tag}, tagValue: ${data}[${tag}], allowedValues: ${allowedValues} }, `
+            + `message: 'unknown ' + ${tag} + ' ' + JSON.stringify(${data}[${tag}]), data: ${data} }`;
+
+        return `${valid} = typeof ${data} !== 'object' || ${data} === null || !(${tag} in ${data}) || ${allowedValues}.indexOf(${data}[${tag}]) !== -1; `
+            + `if (!${valid}) { var err = ${error}; if (vErrors === null) vErrors = [err]; else vErrors.push(err); errors++; }`;
+    },
+};
+
+/**
+ * no-doc - Every custom string format that has been registered with `registerFormat`, by name.
+ */
+const customFormats: Record<string, (data: string) => boolean> = {};
+
+/**
+ * no-doc - The keywords whose value is a sub-schema, or a list of sub-schemas.
+ */
+const subSchemaKeywords = ['items', 'additionalItems', 'contains', 'additionalProperties', 'propertyNames', 'not', 'if', 'then', 'else', 'allOf', 'anyOf', 'oneOf'];
+
+/**
+ * no-doc - The keywords whose value is a record of sub-schemas.
+ */
+const subSchemaRecordKeywords = ['properties', 'patternProperties', 'dependencies', 'definitions'];
+
+/**
+ * no-doc - Applies a function to every direct sub-schema of a schema.
+ * Returns a copy of the schema if any of its sub-schemas changed, or the schema itself otherwise.
+ */
+const mapSubSchemas = (schema: any, f: (sub: any) => any): any => {
+    let changed = false;
+    const map = (sub: any) => {
+        const mapped = f(sub);
+        changed = changed || mapped !== sub;
+        return mapped;
+    };
+
+    const copy = Object.keys(schema).reduce((coll, key) => {
+        const value = schema[key];
+
+        if (subSchemaKeywords.includes(key)) {
+            coll[key] = Array.isArray(value) ? value.map(map) : map(value);
+        } else if (subSchemaRecordKeywords.includes(key) && typeof value === 'object' && value !== null) {
+            coll[key] = Object.keys(value).reduce((subs, name) => ({ ...subs, [name]: map(value[name]) }), {} as Record<string, any>);
+        } else {
+            coll[key] = value;
+        }
+
+        return coll;
+    }, {} as Record<string, any>);
+
+    return changed ? copy : schema;
+};
+
+/**
+ * no-doc - The schemas that have been created by `hoistDefinitions`, which only have `definitions` at their root.
+ */
+const hoistedSchemas = new WeakSet<object>();
+
+/**
+ * no-doc - Adds definitions to the collected definitions of a schema, throwing if a name is already used by a different definition.
+ */
+const addDefinitions = (definitions: Record<string, any>, added: Record<string, any>) => {
+    Object.keys(added).forEach(name => {
+        const existing = definitions[name];
+        if (existing && existing !== added[name] && JSON.stringify(existing) !== JSON.stringify(added[name])) {
+            throw new Error(`Cannot use two different definitions named '${name}' within the same schema`);
+        }
+        definitions[name] = added[name];
+    });
+};
+
+/**
+ * no-doc - Removes the `definitions` from a schema and all of its sub-schemas, collecting them into the given record.
+ * Returns the schema unchanged if it has no definitions.
+ */
+const liftDefinitions = (schema: any, definitions: Record<string, any>): any => {
+    if (typeof schema !== 'object' || schema === null) return schema;
+
+    const { definitions: own, ...rest } = schema;
+    const isRecord = typeof own === 'object' && own !== null;
+
+    // the definitions of a hoisted schema are all at its root, so there is no need to look any deeper
+    if (hoistedSchemas.has(schema)) {
+        if (!isRecord) return schema;
+        addDefinitions(definitions, own);
+        return copyAnnotations(schema, rest);
+    }
+
+    const lifted = mapSubSchemas(isRecord ? rest : schema, sub => liftDefinitions(sub, definitions));
+    if (isRecord) Object.keys(own).forEach(name => addDefinitions(definitions, { [name]: liftDefinitions(own[name], definitions) }));
+
+    return lifted === schema ? schema : copyAnnotations(schema, lifted);
+};
+
+/**
+ * no-doc - Moves the `definitions` of every sub-schema (such as an embedded `recursive` validator) to the root of the schema,
+ * because `$ref`s to `#/definitions/...` are always resolved from the root of the schema being compiled.
+ */
+const hoistDefinitions = (schema: ValidatorSchema): ValidatorSchema => {
+    if (typeof schema !== 'object' || schema === null || hoistedSchemas.has(schema)) return schema;
+
+    const definitions: Record<string, any> = {};
+    const lifted = liftDefinitions(schema, definitions);
+    const hoisted = Object.keys(definitions).length > 0 ? copyAnnotations(lifted, { ...lifted, definitions }) : lifted;
+
+    hoistedSchemas.add(hoisted);
+    return hoisted;
+};
+
+/**
+ * no-doc - Copies a schema with the refinements of it and its sub-schemas added as `refine` and `refineAsync` keywords, so that Ajv runs them.
+ * The keywords hold the refinements themselves, so they are only added to the copy of the schema that is compiled.
+ * Returns the schema itself if it has no refinements.
+ */
+const withRefinementKeywords = (schema: any): any => {
+    if (typeof schema !== 'object' || schema === null) return schema;
+
+    const copy = mapSubSchemas(schema, withRefinementKeywords);
+    const { refine, refineAsync } = getAnnotations(schema);
+    if (refine.length === 0 && refineAsync.length === 0) return copy;
+
+    return {
+        ...copy,
+        ...(refine.length > 0 ? { refine } : {}),
+        ...(refineAsync.length > 0 ? { refineAsync } : {}),
+    };
+};
+
+/**
+ * no-doc - The copies of schemas created by `withRefinementKeywords`, which hold functions.
+ */
+const refinedSchemas = new WeakSet<object>();
+
+/**
+ * no-doc - Gets the schema that Ajv compiles for the given schema.
+ */
+const toAjvSchema = (schema: object): object => {
+    const compiled = withRefinementKeywords(schema);
+    if (compiled !== schema) refinedSchemas.add(compiled);
+    return compiled;
+};
+
+/**
+ * no-doc - Gets the key that Ajv caches a compiled schema under.
+ * Refinements cannot be told apart by their JSON, so schemas that hold them are cached by identity.
+ */
+const serializeSchema = (schema: object | boolean): string | object =>
+    typeof schema === 'object' && refinedSchemas.has(schema) ? schema : JSON.stringify(schema);
+
+/**
+ * no-doc - The cache of the schemas compiled by an Ajv instance.
+ * Schemas cached by identity are held weakly, so that validators created for a single request (along with their refinements) can be garbage collected.
+ */
+class SchemaCache {
+    private serialized = new Map<string, object>();
+    private refined = new WeakMap<object, object>();
+
+    get(key: string | object) {
+        return typeof key === 'string' ? this.serialized.get(key) : this.refined.get(key);
+    }
+
+    put(key: string | object, value: object) {
+        if (typeof key === 'string') this.serialized.set(key, value);
+        else this.refined.set(key, value);
+    }
+
+    del(key: string | object) {
+        if (typeof key === 'string') this.serialized.delete(key);
+        else this.refined.delete(key);
+    }
+
+    clear() {
+        this.serialized.clear();
+        this.refined = new WeakMap();
+    }
+}
+
+/**
+ * The options of a `ValidationContext`, which are passed through to Ajv.
+ * `verbose` is always enabled, because error reports rely on it, and compiled schemas are always cached by the context itself.
+ * `useDefaults` is only enabled when `validate` and `parse` fill default values into a copy of the data.
+ */
+export type ContextOptions = Omit<Ajv.Options, 'verbose' | 'useDefaults' | 'cache' | 'serialize'>;
+
+/**
+ * A `ValidationContext` compiles the schemas of validators using a single shared Ajv instance.
+ * Ajv caches compiled schemas, so validators with identical schemas are only compiled once per context.
+ *
+ * Every validator uses the default context unless it is bound to another context with `Validator.withContext`.
+ *
+ * @param options [optional] Options passed through to Ajv.
+ *
+ * @example
+ * ```typescript
+ * import * as v from 'validtyped';
+ *
+ * const context = v.createContext({ formats: { zip: /^\d{5}$/ } });
+ * const validator = v.string().withContext(context);
+ * ```
+ */
+export class ValidationContext {
+    private sharedAjv = new Map<boolean, Ajv.Ajv>();
+    private sharedFormats = new WeakMap<Ajv.Ajv, Set<string>>();
+
+    constructor(readonly options: ContextOptions = {}) {}
+
+    /**
+     * no-doc - Creates a new Ajv instance that uses the options of this context (along with any extra options given)
+     * and understands all of the keywords used by this library.
+     */
+    createAjv(options: Ajv.Options = {}): Ajv.Ajv {
+        // the root of a `recursive` validator is a `$ref`, so the keywords next to it (such as refinements) must still be validated
+        const ajv = new Ajv({
+            extendRefs: true,
+            ...this.options,
+            ...options,
+            verbose: true,
+            useDefaults: options.useDefaults === true,
+            cache: new SchemaCache(),
+            serialize: serializeSchema,
+        });
+        ajv.addKeyword('refine', refineKeyword);
+        ajv.addKeyword('refineAsync', refineAsyncKeyword);
+        ajv.addKeyword('discriminator', discriminatorKeyword);
+        Object.keys(customFormats).forEach(name => ajv.addFormat(name, customFormats[name]));
+        return ajv;
+    }
+
+    /**
+     * no-doc - Compiles a schema, reusing the compiled validation function if an identical schema has been compiled before.
+     * Validation functions compiled with `useDefaults` fill missing values into the validated data, so must only be given a copy of it.
+     */
+    compile(schema: object, options: { useDefaults?: boolean } = {}): Ajv.ValidateFunction {
+        return this.getSharedAjv(options.useDefaults === true).compile(toAjvSchema(schema));
+    }
+
+    /**
+     * no-doc - Compiles the sub-schema found at the given JSON pointer of a schema, such as a single branch of a union.
+     * The sub-schema is compiled along with the definitions of the root schema, so that its `$ref`s still resolve.
+     */
+    compileAt(schema: ValidatorSchema, pointer: string): Ajv.ValidateFunction {
+        const { definitions } = schema;
+        return this.compile({ ...(definitions ? { definitions } : {}), allOf: [ resolvePointer(schema, pointer) ] });
+    }
+
+    private getSharedAjv(useDefaults: boolean): Ajv.Ajv {
+        const ajv = this.sharedAjv.get(useDefaults) || this.createAjv({ useDefaults });
+        const shared = this.sharedFormats.get(ajv) || new Set<string>();
+        this.sharedAjv.set(useDefaults, ajv);
+        this.sharedFormats.set(ajv, shared);
+
+        // formats can be registered after the shared instance has been created
+        Object.keys(customFormats).filter(name => !shared.has(name)).forEach(name => {
+            ajv.addFormat(name, customFormats[name]);
+            shared.add(name);
+        });
+
+        return ajv;
+    }
+}
+
+/**
+ * no-doc - The context used by every validator that is not bound to another context.
+ */
+let defaultContext = new ValidationContext();
+
+/**
+ * no-doc - Gets the context of a validator composed of the given validators, which is the context that any of them is bound to.
+ * Throws if they are bound to different contexts, because a schema is compiled with the options and formats of a single context.
+ */
+const composedContext = (validators: Array<Validator<any, any>>): ValidationContext | undefined => {
+    const contexts = validators
+        .map(v => v.getBoundContext())
+        .filter((context, i, all): context is ValidationContext => context !== undefined && all.indexOf(context) === i);
+
+    if (contexts.length > 1) throw new Error('Cannot combine validators that are bound to different contexts');
+    return contexts[0];
+};
+
+/**
+ * Creates a new `ValidationContext`, which compiles schemas with its own shared Ajv instance and options.
+ * Validators are bound to the new context with `Validator.withContext`.
+ * @param options [optional] Options passed through to Ajv.
+ *
+ * @example
+ * ```typescript
+ * import * as v from 'validtyped';
+ *
+ * const context = v.createContext({ allErrors: true });
+ * const validator = v.object({ a: v.string(), b: v.number() }).withContext(context);
+ * ```
+ */
+export function createContext(options?: ContextOptions): ValidationContext {
+    return new ValidationContext(options);
+}
+
+/**
+ * Replaces the default `ValidationContext`, which is used by every validator that is not bound to another context.
+ * Validators that have already compiled their schema keep using the previous context.
+ * @param options Options passed through to Ajv.
+ *
+ * @example
+ * ```typescript
+ * import * as v from 'validtyped';
+ *
+ * v.configure({ formats: { zip: /^\d{5}$/ } });
+ * ```
+ */
+export function configure(options: ContextOptions) {
+    defaultContext = new ValidationContext(options);
+}
+
+/**
+ * Compiles validators ahead of time into the source of a standalone javascript (commonjs) module, along with its typescript declarations.
+ * For each validator, the module exports an `is<Type>` type guard and a `validate<Type>` function returning the same result as `Validator.validate`.
+ * Types are named in the same way as `toTypeScript`, by their `title` meta-data or their key.
+ * The module does not require `ajv`, since it includes the helpers and string formats that the compiled functions use,
+ * so it neither compiles schemas nor uses `new Function` at runtime.
+ * Schemas are compiled with the options of the default context.
+ * The compiled functions only check data: they do not strip unknown keys or decode codecs,
+ * and validators with refinements or formats checked by a function cannot be precompiled.
+ *
+ * @param validators An object whose values are the `Validator` instances to compile.
+ * @returns the `code` of the module and its `declarations`.
+ *
+ * @example
+ * ```typescript
+ * import * as v from 'validtyped';
+ *
+ * const user = v.object({ name: v.string() }).setSchemaMetaData({ title: 'User' });
+ *
+ * const { code, declarations } = v.toStandaloneModule({ user });
+ * fs.writeFileSync('validators.js', code);
+ * fs.writeFileSync('validators.d.ts', declarations);
+ *
+ * // at runtime
+ * import { isUser } from './validators';
+ * if (isUser(body)) doThing(body); // typeof body => `User`
+ * ```
+ */
+export function toStandaloneModule(validators: Record<string, Validator<any, any>>): StandaloneModule {
+    return renderStandaloneModule(validators, defaultContext);
+}
+
 /**
  * A `Validator<T>` instance is an encapsulated pair of some TS type `T` and a corresponding JSON schema.
  *
@@ -110,14 +661,45 @@ const once = <F extends AnyFunc>(f: F): F => {
  * const strOrNum2 = stringValidator.or(numberValidator);
  * ```
  */
-export class Validator<T> {
-    constructor(private schema: Schema) {}
+export class Validator<T, J = T> {
+    private readonly schema: ValidatorSchema;
+
+    constructor(schema: ValidatorSchema, private readonly context?: ValidationContext) {
+        this.schema = hoistDefinitions(schema);
+    }
 
-    private getAjv = once(() => new Ajv());
+    private getContext = once(() => this.context || defaultContext);
     private getCompiledSchema = once(() => {
-        const ajv = this.getAjv();
         const schema = this.getSchema();
-        return ajv.compile(schema);
+        return this.getContext().compile(schema);
+    });
+    private getCompiledDefaultsSchema = once(() => {
+        const schema = this.getSchema();
+        return this.getContext().compile(schema, { useDefaults: true });
+    });
+    private getCompiledAsyncSchema = once(() => {
+        // wrap the schema so that `$async` is set at the root without changing the schema itself,
+        // keeping its definitions at the root so that its `$ref`s still resolve
+        const { definitions } = this.getSchema();
+        const schema = { $async: true, ...(definitions ? { definitions } : {}), allOf: [ this.getSchema() ] };
+        return this.getContext().compile(schema, { useDefaults: true });
+    });
+    private usesDefaults = once(() => usesDefaults(this.getSchema()));
+    private runSync = (ajvValidator: Ajv.ValidateFunction, data: unknown): boolean => {
+        const valid = ajvValidator(data);
+        if (typeof valid !== 'boolean') throw new Error('Cannot synchronously validate an $async schema. Use isValidAsync or validateAsync instead');
+
+        return valid;
+    }
+    private transformsData = once(() => transformsData(this.getSchema()));
+    private usesCodecs = once(() => usesCodecs(this.getSchema()));
+    private getSchemaMatcher = once((): SchemaMatcher => {
+        const compiled = new Map<string, Ajv.ValidateFunction>();
+        return (pointer, data) => {
+            const ajvValidator = compiled.get(pointer) || this.getContext().compileAt(this.getSchema(), pointer);
+            compiled.set(pointer, ajvValidator);
+            return ajvValidator(data) === true;
+        };
     });
 
     /**
@@ -131,13 +713,13 @@ export class Validator<T> {
      * console.log(schema); // { type: 'string' }
      * ```
      */
-    getSchema(): Schema {
+    getSchema(): ValidatorSchema {
         return this.schema;
     }
 
     /**
      * Predicate returning `true` if the given data matches the JSON schema.
-     * Acts as a type guard for the encapsulated typescript type.
+     * Acts as a type guard for the encapsulated typescript type, in its JSON form when the schema uses codecs.
      * @param thing Any data of unknown type which will be validated.
      * @returns a boolean indicating validity of given thing.
      *
@@ -152,79 +734,271 @@ export class Validator<T> {
      * if (userModel.isValid(x)) doThing(x);
      * ```
      */
-    isValid(thing: unknown): thing is T {
-        const ajvValidator = this.getCompiledSchema();
-
-        return ajvValidator(thing) as boolean;
+    isValid(thing: unknown): thing is J {
+        return this.runSync(this.getCompiledSchema(), thing);
     }
 
     /**
-     * Takes data of unknown type and returns a discriminated union with either the data as the valid type,
-     * or an error object describing what part of the data did not match.
-     * @param data Any data of unknown type which will be validated.
+     * Resolves to `true` if the given data matches the JSON schema, including any asynchronous refinements.
+     * Unlike `isValid`, this can be used with `$async` schemas and validators created with `refineAsync`.
+     * @param thing Any data of unknown type which will be validated.
+     * @returns a promise of a boolean indicating validity of given thing.
      *
      * @example
      * ```typescript
      * import * as v from 'validtyped';
      *
-     * const stringModel = v.string();
+     * const username = v.string().refineAsync(name => users.isAvailable(name), 'username is taken');
      *
-     * const result = stringModel.validate(22);
-     * if (result.valid) doThing(result.data);
-     * else logger.error(...result.errors);
+     * if (await username.isValidAsync(x)) doThing(x);
      * ```
      */
-    validate(data: unknown): ValidResult<T> | InvalidResult {
-        if (this.isValid(data)) {
-            return { data, valid: true };
-        }
-
-        const ajvValidator = this.getCompiledSchema();
-        return { errors: ajvValidator.errors || [], valid: false };
+    async isValidAsync(thing: unknown): Promise<boolean> {
+        const result = await this.validateAsync(thing);
+        return result.valid;
     }
 
     /**
-     * Add meta-data to the underlying JSON schema.
-     * This is entirely un-observable information to the validator,
-     * but supplies the `getSchema` method to have a complete JSON schema with meta-data annotations.
-     * @param meta JSON schema meta-data (name, description, etc.)
+     * Converts data that matches the schema into the valid type, by stripping unknown keys and decoding codecs.
+     * Data is returned unchanged when the schema does neither, so there is no cost for the schemas that do not need it.
+     * Note that this does not validate the data: use `parse` to both validate and decode data of unknown type.
+     * @param json Data that matches the JSON schema.
      *
      * @example
      * ```typescript
      * import * as v from 'validtyped';
      *
-     * const validator = v.string();
-     * validator.setSchemaMetaData({ name: 'string validator' });
+     * const event = v.object({ at: v.isoDate() });
+     *
+     * if (event.isValid(body)) {
+     *   const decoded = event.decode(body); // typeof decoded => `{ at: Date }`
+     * }
      * ```
      */
-    setSchemaMetaData(meta: Partial<SchemaMetaData>): this {
-        this.schema = {
-            ...this.schema,
-            ...meta,
-        };
-        return this;
+    decode(json: J): T {
+        if (!this.transformsData()) return json as any;
+
+        return transformData(this.getSchema(), json, {
+            direction: 'decode',
+            matches: this.getSchemaMatcher(),
+        }) as T;
     }
 
     /**
-     * Add additional validations to the generated schema.
-     * While most of these validations are not representable at compile time
-     * with typescript (`minLength` of a `string` for instance), it can be helpful
-     * to have the additional validations when validating runtime types.
-     * @param opts JSON schema specific options (for instance: `{ maxLength: 2, minLength: 0 }`)
+     * Converts a value of the valid type back into data that matches the schema, by encoding codecs.
+     * @param value A value of the valid type.
      *
      * @example
      * ```typescript
-     * const validator = v.string().withOptions({ minLength: 1 });
-     * validator.isValid(''); // false
-     * validator.isValid('hi'); // true
+     * import * as v from 'validtyped';
+     *
+     * const event = v.object({ at: v.isoDate() });
+     *
+     * res.send(event.encode({ at: new Date() })); // { at: '2018-11-13T20:20:39.000Z' }
      * ```
      */
-    withOptions(opts: TypeToSchemaOptions<T>): this {
-        this.schema = {
-            ...this.schema,
-            ...opts as any,
-        };
-        return this;
+    encode(value: T): J {
+        if (!this.usesCodecs()) return value as any;
+
+        return transformData(this.getSchema(), value, {
+            direction: 'encode',
+            matches: this.getSchemaMatcher(),
+        }) as J;
+    }
+
+    /**
+     * Takes data of unknown type and returns a discriminated union with either the data as the valid type,
+     * or an error object describing what part of the data did not match.
+     * If the schema contains objects created with the `strip` option or codecs, the valid data is a copy that has been decoded using `decode`.
+     * If the schema has default values, they are filled into a copy of the data, so the given data is never changed.
+     * @param data Any data of unknown type which will be validated.
+     *
+     * @example
+     * ```typescript
+     * import * as v from 'validtyped';
+     *
+     * const stringModel = v.string();
+     *
+     * const result = stringModel.validate(22);
+     * if (result.valid) doThing(result.data);
+     * else logger.error(...result.errors);
+     * ```
+     */
+    validate(data: unknown): ValidResult<T> | InvalidResult {
+        // default values are filled into a copy, so that the given data is never changed
+        const copy = this.usesDefaults() ? copyData(data) : data;
+        const ajvValidator = this.usesDefaults() ? this.getCompiledDefaultsSchema() : this.getCompiledSchema();
+
+        if (this.runSync(ajvValidator, copy)) {
+            return { data: this.decode(copy as J), valid: true };
+        }
+
+        return { errors: ajvValidator.errors || [], valid: false };
+    }
+
+    /**
+     * Takes data of unknown type and resolves to a discriminated union with either the data as the valid type,
+     * or an error object describing what part of the data did not match.
+     * Unlike `validate`, this can be used with `$async` schemas and validators created with `refineAsync`.
+     * @param data Any data of unknown type which will be validated.
+     *
+     * @example
+     * ```typescript
+     * import * as v from 'validtyped';
+     *
+     * const signup = v.object({
+     *   username: v.string().refineAsync(name => users.isAvailable(name), 'username is taken'),
+     * });
+     *
+     * const result = await signup.validateAsync(body);
+     * if (result.valid) doThing(result.data);
+     * else logger.error(...result.errors);
+     * ```
+     */
+    async validateAsync(data: unknown): Promise<ValidResult<T> | InvalidResult> {
+        const ajvValidator = this.getCompiledAsyncSchema();
+        const copy = this.usesDefaults() ? copyData(data) : data;
+
+        try {
+            await ajvValidator(copy);
+            return { data: this.decode(copy as J), valid: true };
+        } catch (e) {
+            if (e instanceof Ajv.ValidationError) return { errors: e.errors, valid: false };
+            throw e;
+        }
+    }
+
+    /**
+     * Takes data of unknown type and returns it as the valid type, or throws a `ValidationError` if it does not match the schema.
+     * @param data Any data of unknown type which will be validated.
+     * @returns the given data, decoded in the same way as `validate`.
+     *
+     * @example
+     * ```typescript
+     * import * as v from 'validtyped';
+     *
+     * const userModel = v.object({ name: v.string() });
+     *
+     * const user = userModel.parse(JSON.parse(body)); // typeof user => `{ name: string }`
+     * ```
+     */
+    parse(data: unknown): T {
+        const result = this.validate(data);
+        if (result.valid) return result.data;
+
+        throw new ValidationError(result.errors, data, this.schema.title);
+    }
+
+    /**
+     * Throws a `ValidationError` if the given data does not match the schema.
+     * Acts as an assertion signature for the encapsulated typescript type, in its JSON form when the schema uses codecs.
+     * Note that typescript requires the validator to be declared with an explicit type to use it as an assertion.
+     * @param data Any data of unknown type which will be validated.
+     *
+     * @example
+     * ```typescript
+     * import * as v from 'validtyped';
+     *
+     * const userModel: v.Validator<User> = v.object({ name: v.string() });
+     *
+     * const x: unknown = getUserData();
+     * userModel.assert(x);
+     * doThing(x); // typeof x => `User`
+     * ```
+     */
+    assert(data: unknown): asserts data is J {
+        if (!this.isValid(data)) throw new ValidationError(this.getCompiledSchema().errors || [], data, this.schema.title);
+    }
+
+    /**
+     * Creates a new validator with the same schema that compiles its schema using the given `ValidationContext`,
+     * instead of the default context.
+     * Validators composed from it (such as with `or`, `object` or `array`) use the same context.
+     * @param context A `ValidationContext` created with `createContext`.
+     *
+     * @example
+     * ```typescript
+     * import * as v from 'validtyped';
+     *
+     * const context = v.createContext({ allErrors: true });
+     * const validator = v.object({ a: v.string(), b: v.number() }).withContext(context);
+     * ```
+     */
+    withContext(context: ValidationContext): Validator<T, J> {
+        return new Validator<T, J>(this.schema, context);
+    }
+
+    /**
+     * no-doc - Gets the context that this validator was bound to with `withContext`, or `undefined` if it uses the default context.
+     */
+    getBoundContext(): ValidationContext | undefined {
+        return this.context;
+    }
+
+    /**
+     * Creates a new validator with meta-data added to the underlying JSON schema.
+     * This is entirely un-observable information to the validator,
+     * but supplies the `getSchema` method to have a complete JSON schema with meta-data annotations.
+     * @param meta JSON schema meta-data (name, description, etc.)
+     *
+     * @example
+     * ```typescript
+     * import * as v from 'validtyped';
+     *
+     * const validator = v.string().setSchemaMetaData({ title: 'Name', description: 'The name of a user' });
+     * ```
+     */
+    setSchemaMetaData(meta: Partial<SchemaMetaData>): Validator<T, J> {
+        return new Validator<T, J>(copyAnnotations(this.schema, {
+            ...this.schema,
+            ...meta,
+        }), this.context);
+    }
+
+    /**
+     * Creates a new validator with additional validations added to the generated schema.
+     * While most of these validations are not representable at compile time
+     * with typescript (`minLength` of a `string` for instance), it can be helpful
+     * to have the additional validations when validating runtime types.
+     * @param opts JSON schema specific options (for instance: `{ maxLength: 2, minLength: 0 }`)
+     *
+     * @example
+     * ```typescript
+     * const validator = v.string().withOptions({ minLength: 1 });
+     * validator.isValid(''); // false
+     * validator.isValid('hi'); // true
+     * ```
+     */
+    withOptions(opts: TypeToSchemaOptions<J>): Validator<T, J> {
+        return new Validator<T, J>(copyAnnotations(this.schema, {
+            ...this.schema,
+            ...opts as any,
+        }), this.context);
+    }
+
+    /**
+     * Creates a new validator with a default value.
+     * When this validator is used as the property of an object, the property is no longer required in the data:
+     * if it is missing, `validate` and `parse` fill it with the default value in a copy of the data, leaving the given data unchanged.
+     * Because of this, the property remains required in the valid type.
+     * `isValid` and `assert` never fill in default values, so only use them with data that is known to have every property.
+     * @param value The default value.
+     *
+     * @example
+     * ```typescript
+     * import * as v from 'validtyped';
+     *
+     * const validator = v.object({ page: v.number().default(1) });
+     *
+     * const data = validator.parse({}); // typeof data => `{ page: number }`
+     * console.log(data); // { page: 1 }
+     * ```
+     */
+    default(value: J): Validator<T, J> {
+        return new Validator<T, J>(copyAnnotations(this.schema, {
+            ...this.schema,
+            ...{ default: value } as any,
+        }), this.context);
     }
 
     /**
@@ -238,7 +1012,7 @@ export class Validator<T> {
      * const or = v.string().or(v.number()).or(v.boolean()); // string | number | boolean
      * ```
      */
-    or<V extends Validator<any>>(other: V): Validator<T | ValidType<V>> {
+    or<V extends Validator<any>>(other: V): Validator<T | ValidType<V>, J | WireType<V>> {
         return union([this, other]);
     }
 
@@ -256,10 +1030,69 @@ export class Validator<T> {
      * const and = v1.and(v2).and(v3); // { a: string, b: number, c: boolean }
      * ```
      */
-    and<V extends Validator<any>>(other: V): Validator<T & ValidType<V>> {
+    and<V extends Validator<any>>(other: V): Validator<T & ValidType<V>, J & WireType<V>> {
         return intersect(this, other);
     }
 
+    /**
+     * Creates a new validator that additionally checks the given predicate.
+     * This allows validations that cannot be expressed with JSON schema, for instance comparing two fields of an object.
+     * The predicate only runs once the data matches the rest of the schema,
+     * and if it fails, the given message is reported through the usual `InvalidResult` errors.
+     *
+     * If a nominal type tag is given, the new validator narrows to a `Nominal` type in the same way as `nominal`.
+     * @param predicate A function returning `true` when the data is valid.
+     * @param message The error message reported when the predicate fails.
+     * @param brand [optional] A nominal type tag for the refined type.
+     *
+     * @example
+     * ```typescript
+     * import * as v from 'validtyped';
+     *
+     * const range = v.object({ start: v.number(), end: v.number() })
+     *   .refine(x => x.start < x.end, 'start must precede end');
+     *
+     * const even = v.number().refine(x => x % 2 === 0, 'must be even', 'Even'); // Validator<Nominal<number, 'Even'>>
+     * ```
+     */
+    refine(predicate: (data: J) => boolean, message: string): Validator<T, J>;
+    refine<B extends string>(predicate: (data: J) => boolean, message: string, brand: B): Validator<Nominal<T, B>, Nominal<J, B>>;
+    refine(predicate: (data: J) => boolean, message: string, brand?: string): Validator<any, any> {
+        const { refine } = getAnnotations(this.schema);
+        const schema = annotate(copyAnnotations(this.schema, { ...this.schema }), {
+            refine: [...refine, { predicate, message }],
+        });
+
+        if (brand) setNominalName(schema, brand);
+        return new Validator<T, J>(schema, this.context);
+    }
+
+    /**
+     * Creates a new validator that additionally checks the given asynchronous predicate,
+     * for instance checking that a username is not already taken using a repository.
+     * The predicate only runs once the data matches the rest of the schema,
+     * and if it resolves to `false`, the given message is reported through the usual `InvalidResult` errors.
+     *
+     * Validators with asynchronous refinements (and any validators composed from them) can only be checked with `isValidAsync` and `validateAsync`.
+     * @param predicate A function resolving to `true` when the data is valid.
+     * @param message The error message reported when the predicate fails.
+     *
+     * @example
+     * ```typescript
+     * import * as v from 'validtyped';
+     *
+     * const username = v.string().refineAsync(name => users.isAvailable(name), 'username is taken');
+     * ```
+     */
+    refineAsync(predicate: (data: J) => Promise<boolean>, message: string): Validator<T, J> {
+        const { refineAsync } = getAnnotations(this.schema);
+        const schema = annotate(copyAnnotations(this.schema, { ...this.schema }), {
+            refineAsync: [...refineAsync, { predicate, message }],
+        });
+
+        return new Validator<T, J>(schema, this.context);
+    }
+
     /**
      * Shortcut for `.or(v.nil())` creating a nullable version of this schema.
      *
@@ -270,299 +1103,1146 @@ export class Validator<T> {
      * const nullableString = v.string().orNull();
      * ```
      */
-    orNull(): Validator<T | null> {
+    orNull(): Validator<T | null, J | null> {
         return this.or(nil());
     }
 }
 
 /**
- * Creates a validator instance that is true when the given type is a string.
- * @param union [optional] an array of possible string literals that the valid data could take.
+ * Creates a validator instance that is true when the given type is a string.
+ * @param union [optional] an array of possible string literals that the valid data could take.
+ *
+ * @example
+ * ```typescript
+ * import * as v from 'validtyped';
+ *
+ * const validator = v.string();
+ * const data: any = getData();
+ *
+ * if (validator.isValid(data)) doThing(data); // typeof data => `string`
+ * else throw new Error('oops!'); // typeof data => `any`
+ * ```
+ */
+export function string(): Validator<string>;
+export function string<S extends string>(union?: S[]): Validator<S>;
+export function string(union?: string[]) {
+    const e = union ? { enum: union } : {};
+    return new Validator({ type: 'string', ...e });
+}
+
+/**
+ * no-doc - Creates a nominal string validator that checks the given JSON schema format.
+ */
+const formattedString = <B extends string>(format: string, brand: B) =>
+    nominal(new Validator<string>({ type: 'string', ...{ format } as any }), brand);
+
+/**
+ * Creates a validator instance that is true when the given type is an email address.
+ *
+ * @example
+ * ```typescript
+ * import * as v from 'validtyped';
+ *
+ * const validator = v.email();
+ * const data: any = getData();
+ *
+ * if (validator.isValid(data)) sendEmail(data); // typeof data => `Nominal<string, 'Email'>`
+ * else throw new Error('oops!'); // typeof data => `any`
+ * ```
+ */
+export function email() {
+    return formattedString('email', 'Email');
+}
+
+/**
+ * Creates a validator instance that is true when the given type is an absolute URI.
+ *
+ * @example
+ * ```typescript
+ * import * as v from 'validtyped';
+ *
+ * const validator = v.object({ homepage: v.uri() }); // { homepage: Nominal<string, 'Uri'> }
+ * ```
+ */
+export function uri() {
+    return formattedString('uri', 'Uri');
+}
+
+/**
+ * Creates a validator instance that is true when the given type is a UUID.
+ *
+ * @example
+ * ```typescript
+ * import * as v from 'validtyped';
+ *
+ * const validator = v.object({ id: v.uuid() }); // { id: Nominal<string, 'Uuid'> }
+ * ```
+ */
+export function uuid() {
+    return formattedString('uuid', 'Uuid');
+}
+
+/**
+ * Creates a validator instance that is true when the given type is an RFC 3339 date and time, for instance `2018-11-13T20:20:39+00:00`.
+ *
+ * @example
+ * ```typescript
+ * import * as v from 'validtyped';
+ *
+ * const validator = v.object({ createdAt: v.dateTime() }); // { createdAt: Nominal<string, 'DateTime'> }
+ * ```
+ */
+export function dateTime() {
+    return formattedString('date-time', 'DateTime');
+}
+
+/**
+ * Creates a validator instance that is true when the given type is an RFC 3339 full date, for instance `2018-11-13`.
+ *
+ * @example
+ * ```typescript
+ * import * as v from 'validtyped';
+ *
+ * const validator = v.object({ birthday: v.date() }); // { birthday: Nominal<string, 'Date'> }
+ * ```
+ */
+export function date() {
+    return formattedString('date', 'Date');
+}
+
+/**
+ * Creates a validator instance that is true when the given type is an IPv4 address in dotted-quad notation.
+ *
+ * @example
+ * ```typescript
+ * import * as v from 'validtyped';
+ *
+ * const validator = v.object({ ip: v.ipv4() }); // { ip: Nominal<string, 'Ipv4'> }
+ * ```
+ */
+export function ipv4() {
+    return formattedString('ipv4', 'Ipv4');
+}
+
+/**
+ * Creates a validator instance that is true when the given type is a hostname.
+ *
+ * @example
+ * ```typescript
+ * import * as v from 'validtyped';
+ *
+ * const validator = v.object({ host: v.hostname() }); // { host: Nominal<string, 'Hostname'> }
+ * ```
+ */
+export function hostname() {
+    return formattedString('hostname', 'Hostname');
+}
+
+/**
+ * Creates a validator instance that is true when the given type is a string matching the given regular expression.
+ * Because JSON schema patterns cannot have flags, the regular expression must not have any flags.
+ * @param pattern A regular expression, or the source of a regular expression.
+ * @param brand A nominal type tag for the matching strings.
+ *
+ * @example
+ * ```typescript
+ * import * as v from 'validtyped';
+ *
+ * const validator = v.regex(/^[A-Z]{3}$/, 'CurrencyCode');
+ * const data: any = getData();
+ *
+ * if (validator.isValid(data)) doThing(data); // typeof data => `Nominal<string, 'CurrencyCode'>`
+ * else throw new Error('oops!'); // typeof data => `any`
+ * ```
+ */
+export function regex<B extends string>(pattern: RegExp | string, brand: B): Validator<Nominal<string, B>> {
+    if (typeof pattern !== 'string' && pattern.flags) throw new Error(`Cannot use the flags of ${pattern} in a JSON schema pattern`);
+
+    const source = typeof pattern === 'string' ? pattern : pattern.source;
+    return nominal(string().withOptions({ pattern: source }), brand);
+}
+
+/**
+ * Registers a custom string format that is checked by the given predicate, and creates a validator instance for it.
+ * Once registered, the format can also be used by name in the `format` keyword of any schema.
+ * @param name The name of the format used by the `format` keyword.
+ * @param brand A nominal type tag for the strings matching the format.
+ * @param predicate A function returning `true` when a string matches the format.
+ *
+ * @example
+ * ```typescript
+ * import * as v from 'validtyped';
+ *
+ * const zip = v.registerFormat('zip', 'Zip', data => /^\d{5}$/.test(data));
+ * const validator = v.object({ zip }); // { zip: Nominal<string, 'Zip'> }
+ * ```
+ */
+export function registerFormat<B extends string>(name: string, brand: B, predicate: (data: string) => boolean): Validator<Nominal<string, B>> {
+    if (name in customFormats) throw new Error(`The format "${name}" is already registered`);
+
+    customFormats[name] = predicate;
+    return formattedString(name, brand);
+}
+
+/**
+ * Creates a validator instance that is true when the given type is a number.
+ * @param union [optional] an array of possible number literals that the valid data could take.
+ *
+ * @example
+ * ```typescript
+ * import * as v from 'validtyped';
+ *
+ * const validator = v.number();
+ * const data: any = getData();
+ *
+ * if (validator.isValid(data)) doThing(data); // typeof data => `number`
+ * else throw new Error('oops!'); // typeof data => `any`
+ *
+ * const pageSize = v.number([ 10, 25, 50 ]); // Validator<10 | 25 | 50>
+ * ```
+ */
+export function number(): Validator<number>;
+export function number<N extends number>(union?: N[]): Validator<N>;
+export function number(union?: number[]) {
+    const e = union ? { enum: union } : {};
+    return new Validator({ type: 'number', ...e });
+}
+
+/**
+ * Creates a validator instance that is true when the given type is an integer.
+ *
+ * @example
+ * ```typescript
+ * import * as v from 'validtyped';
+ *
+ * const validator = v.integer();
+ *
+ * validator.isValid(2); // true
+ * validator.isValid(1.5); // false
+ * ```
+ */
+export function integer(): Validator<number> {
+    return new Validator<number>({ type: 'integer' });
+}
+
+/**
+ * no-doc - Adds a numeric bound to the schema of a number validator, and optionally a nominal type tag.
+ * @param v the number validator
+ * @param keyword the JSON schema keyword of the bound
+ * @param value the value of the bound
+ * @param brand a nominal type tag for the bounded type
+ */
+const bound = <T extends number>(v: Validator<T>, keyword: string, value: number, brand?: string): Validator<any> => {
+    const type = (v.getSchema() as any).type;
+    if (type !== 'number' && type !== 'integer') throw new Error(`Must only apply ${keyword} to a number schema`);
+
+    const bounded = v.withOptions({ [keyword]: value } as any);
+    return brand ? nominal(bounded, brand) : bounded;
+};
+
+/**
+ * Creates a validator instance that is true when the given number type is greater than or equal to the given minimum.
+ * If a nominal type tag is given, the new validator narrows to a `Nominal` type in the same way as `nominal`.
+ * @param v A `Validator` instance for a number type.
+ * @param minimum The smallest valid number.
+ * @param brand [optional] A nominal type tag for the bounded type.
+ *
+ * @example
+ * ```typescript
+ * import * as v from 'validtyped';
+ *
+ * const page = v.min(v.integer(), 1, 'PositiveInt'); // Validator<Nominal<number, 'PositiveInt'>>
+ * ```
+ */
+export function min<T extends number>(v: Validator<T>, minimum: number): Validator<T>;
+export function min<T extends number, B extends string>(v: Validator<T>, minimum: number, brand: B): Validator<Nominal<T, B>>;
+export function min(v: Validator<number>, minimum: number, brand?: string) {
+    return bound(v, 'minimum', minimum, brand);
+}
+
+/**
+ * Creates a validator instance that is true when the given number type is less than or equal to the given maximum.
+ * If a nominal type tag is given, the new validator narrows to a `Nominal` type in the same way as `nominal`.
+ * @param v A `Validator` instance for a number type.
+ * @param maximum The largest valid number.
+ * @param brand [optional] A nominal type tag for the bounded type.
+ *
+ * @example
+ * ```typescript
+ * import * as v from 'validtyped';
+ *
+ * const percent = v.max(v.min(v.number(), 0), 100, 'Percent'); // Validator<Nominal<number, 'Percent'>>
+ * ```
+ */
+export function max<T extends number>(v: Validator<T>, maximum: number): Validator<T>;
+export function max<T extends number, B extends string>(v: Validator<T>, maximum: number, brand: B): Validator<Nominal<T, B>>;
+export function max(v: Validator<number>, maximum: number, brand?: string) {
+    return bound(v, 'maximum', maximum, brand);
+}
+
+/**
+ * Creates a validator instance that is true when the given number type is strictly greater than the given minimum.
+ * If a nominal type tag is given, the new validator narrows to a `Nominal` type in the same way as `nominal`.
+ * @param v A `Validator` instance for a number type.
+ * @param minimum A number that every valid number is greater than.
+ * @param brand [optional] A nominal type tag for the bounded type.
+ *
+ * @example
+ * ```typescript
+ * import * as v from 'validtyped';
+ *
+ * const price = v.exclusiveMin(v.number(), 0, 'PositiveNumber'); // Validator<Nominal<number, 'PositiveNumber'>>
+ * ```
+ */
+export function exclusiveMin<T extends number>(v: Validator<T>, minimum: number): Validator<T>;
+export function exclusiveMin<T extends number, B extends string>(v: Validator<T>, minimum: number, brand: B): Validator<Nominal<T, B>>;
+export function exclusiveMin(v: Validator<number>, minimum: number, brand?: string) {
+    return bound(v, 'exclusiveMinimum', minimum, brand);
+}
+
+/**
+ * Creates a validator instance that is true when the given number type is a multiple of the given number.
+ * If a nominal type tag is given, the new validator narrows to a `Nominal` type in the same way as `nominal`.
+ * @param v A `Validator` instance for a number type.
+ * @param factor A positive number that every valid number is a multiple of.
+ * @param brand [optional] A nominal type tag for the constrained type.
+ *
+ * @example
+ * ```typescript
+ * import * as v from 'validtyped';
+ *
+ * const cents = v.multipleOf(v.number(), 0.01, 'Cents'); // Validator<Nominal<number, 'Cents'>>
+ * ```
+ */
+export function multipleOf<T extends number>(v: Validator<T>, factor: number): Validator<T>;
+export function multipleOf<T extends number, B extends string>(v: Validator<T>, factor: number, brand: B): Validator<Nominal<T, B>>;
+export function multipleOf(v: Validator<number>, factor: number, brand?: string) {
+    return bound(v, 'multipleOf', factor, brand);
+}
+
+/**
+ * Creates a validator instance that is true when the given type is a boolean.
+ *
+ * @example
+ * ```typescript
+ * import * as v from 'validtyped';
+ *
+ * const validator = v.boolean();
+ * const data: any = getData();
+ *
+ * if (validator.isValid(data)) doThing(data); // typeof data => `boolean`
+ * else throw new Error('oops!'); // typeof data => `any`
+ * ```
+ */
+export function boolean(): Validator<boolean> {
+    return new Validator({ type: 'boolean' });
+}
+
+/**
+ * Creates a validator instance that is _always_ true.
+ * This is useful for specifying that an object _must_ have a given parameter, but you don't care what type that parameter is.
+ *
+ * @example
+ * ```typescript
+ * import * as v from 'validtyped';
+ *
+ * const data: any = getData();
+ *
+ * const validator = v.object({ a: v.string(), b: v.any() });
+ *
+ * if (validator.isValid(data)) doThing(data); // typeof data => `{ a: string, b: any }`
+ * else throw new Error('oops!'); // typeof data => `any`
+ * ```
+ */
+export function any(): Validator<any> {
+    return new Validator({});
+}
+
+/**
+ * Creates a validator instance that is true when given `null`.
+ *
+ * @example
+ * ```typescript
+ * import * as v from 'validtyped';
+ *
+ * const data : any = getData();
+ *
+ * const validator = v.nil();
+ *
+ * if (validator.isValid(data)) doThing(data); // typeof data => `null`
+ * else throw new Error('oops!'); // typeof data => `any`
+ * ```
+ */
+export function nil(): Validator<null> {
+    return new Validator({ type: 'null' });
+}
+
+/**
+ * Creates a validator instance that passes type checking through to the given validator.
+ * Operates as an identity function for the runtime `Validator` type, but annotates the compile-time encapsulated `Validator<T>`
+ * with a nominal string.
+ *
+ * This is useful for marking `id`s or other fields as being a _specific_ type that should not be edited.
+ *
+ * @param v The validator instance that will be passed through for checking runtime correctness.
+ * @param s The nominal type tag for compile-time types.
+ *
+ * @example
+ * ```typescript
+ * import * as v from 'validtyped';
+ *
+ * const validator = v.nominal(v.string(), 'id');
+ * const data: any = getData();
+ *
+ * if (validator.isValid(data)) doThing(data); // typeof data => `Nominal<string, 'id'>`
+ * else throw new Error('oops!'); // typeof data => `any`
+ *
+ * const id = 'user-id' as Nominal<string, 'id'>;
+ * const newId = id + '-new'; // typeof data => `string`. Since we've modified this type, it can no longer be an `id`.
+ * ```
+ */
+export function nominal<T, S extends string, J = T>(v: Validator<T, J>, s: S): Validator<Nominal<T, S>, Nominal<J, S>> {
+    const schema = copyAnnotations(v.getSchema(), { ...v.getSchema() });
+    setNominalName(schema, s);
+    return new Validator(schema, composedContext([v]));
+}
+
+/**
+ * Creates a validator instance that validates the given data is an object, and every property of that object matches the given schemas.
+ * By default, all listed properties **are required**.
+ * By default, unlisted properties are also allowed.
+ * With the `strict` option, unlisted properties are rejected instead.
+ * With the `strip` option, unlisted properties are allowed but are removed from the data returned by `validate` and `parse`.
+ *
+ * Properties with a default value (either from the `defaults` option or from `Validator.default`) may be missing from the data,
+ * in which case they are filled in during validation. These properties are always required in the valid type.
+ *
+ * @param o An object whose keys will be required keys of the valid type and whose properties are `Validator` instances matching the valid property's types.
+ * @param opts [optional] An options object
+ * @param opts.optional [optional] A list of keys that should be marked as optional in the valid type.
+ * @param opts.defaults [optional] An object containing default values for some keys.
+ * @param opts.strict [optional] Reject objects with keys that are not listed.
+ * @param opts.strip [optional] Remove keys that are not listed from the validated data.
+ *
+ * @example
+ * ```typescript
+ * import * as v from 'validtyped';
+ *
+ * const validator = v.object({ a: v.string(), b: v.number() });
+ * const data: any = getData();
+ *
+ * if (validator.isValid(data)) doThing(data); // typeof data = `{ a: string, b: number }`;
+ * else throw new Error('oops!'); // typeof data = `any`
+ * ```
+ */
+export function object<O extends Record<string, Validator<any>>>(o: O): Validator<ObjectValidator<O>, ObjectWireType<O>>;
+export function object<O extends Record<string, Validator<any>>, OptionalKeys extends keyof O = never, Defaults extends Partial<ObjectWireType<O>> = {}>(o: O, opts?: ObjectOptions<OptionalKeys, Defaults>): Validator<OptionalObjectValidator<O, Exclude<OptionalKeys, keyof Defaults>>, OptionalObjectWireType<O, Exclude<OptionalKeys, keyof Defaults>>>;
+export function object<O extends Record<string, Validator<any>>, OptionalKeys extends keyof O = never>(o: O, opts?: ObjectOptions<OptionalKeys, Partial<ObjectWireType<O>>>) {
+    const options: AllRequired<ObjectOptions<OptionalKeys, Partial<ObjectWireType<O>>>> = {
+        optional: [] as OptionalKeys[],
+        defaults: {},
+        strict: false,
+        strip: false,
+        ...opts,
+    };
+
+    if (options.strict && options.strip) throw new Error('Cannot both reject and strip unknown keys of an object');
+
+    const properties = objectKeys(o).reduce((coll, key) => {
+        coll[key] = key in options.defaults
+            ? o[key].default(options.defaults[key]).getSchema()
+            : o[key].getSchema();
+        return coll;
+    }, {} as Record<keyof O, Schema>);
+
+    // properties with defaults are filled in during validation, so do not need to be present in the data
+    const required = Object.keys(o)
+        .filter(key => !options.optional.includes(key as OptionalKeys))
+        .filter(key => !('default' in properties[key]));
+
+    return new Validator({
+        type: 'object',
+        properties,
+        required,
+        ...(options.strict ? { additionalProperties: false } : {}),
+        ...(options.strip ? { stripUnknown: true } : {}) as any,
+    }, composedContext(Object.keys(o).map(key => o[key])));
+}
+
+/**
+ * Creates a `Validator` instance that matches on objects with _any_ keys, and whose properties match the given `Validator`.
+ *
+ * This is useful for "dictionary"-like objects, for instance a record of users by userId.
+ *
+ * @param types A `Validator` instance that specifies the right-side types of the record.
+ *
+ * @example
+ * ```typescript
+ * import * as v from 'validtyped';
+ *
+ * const validator = v.record( v.number() );
+ * const data: any = getData();
+ *
+ * if (validator.isValid(data)) doThing(data); // typeof data = `Record<string, number>`;
+ * else throw new Error('oops!'); // typeof data = `any`
+ * ```
+ */
+export function record<T, J = T>(types: Validator<T, J>) {
+    return new Validator<Record<string, T>, Record<string, J>>({
+        type: 'object',
+        additionalProperties: types.getSchema(),
+    }, composedContext([types]));
+}
+
+/**
+ * Creates a `Validator` instance that matches on objects with no required keys, but mandated types for certain keys if they _do_ exist.
+ *
+ * @param v A `Validator` instance that specifies an object type.
+ *
+ * @example
+ * ```typescript
+ * import * as v from 'validtyped';
+ *
+ * const validator = v.partial( v.object({
+ *   a: v.string(),
+ *   b: v.number(),
+ * }));
+ * const data: any = getData();
+ *
+ * if (validator.isValid(data)) doThing(data); // typeof data = `{ a?: string, b?: number }`;
+ * else throw new Error('oops!'); // typeof data = `any`
+ * ```
+ */
+export function partial<T extends PlainObject, J extends PlainObject = T>(v: Validator<T, J>): Validator<Partial<T>, Partial<J>> {
+    const schema = v.getSchema();
+    if (!('type' in schema)) throw new Error('Must apply partial only to a type definition');
+    if (schema.type !== 'object') throw new Error('Must only apply partial to an object schema');
+    return new Validator({
+        ...schema,
+        required: [],
+    }, composedContext([v]));
+}
+
+/**
+ * no-doc - Gets the schema of an object validator, throwing if the validator is not for an object type.
+ * @param v the validator being transformed
+ * @param name the name of the transformation, used for the error message
+ */
+const getObjectSchema = (v: Validator<any>, name: string): ObjectSchema => {
+    const schema = v.getSchema();
+    if (!('type' in schema) || schema.type !== 'object') throw new Error(`Must only apply ${name} to an object schema`);
+    return schema as ObjectSchema;
+};
+
+/**
+ * no-doc - Creates an object schema with the given properties, keeping the handling of unknown keys of the original object schema.
+ * Other keywords, such as meta-data and refinements, describe the original object and are not kept,
+ * but the root `definitions` are, because the properties may still refer to them.
+ */
+const reshapeObjectSchema = (schema: any, properties: Record<string, Schema>, required: string[]): Schema => ({
+    type: 'object',
+    properties,
+    required,
+    ...('additionalProperties' in schema ? { additionalProperties: schema.additionalProperties } : {}),
+    ...(schema.stripUnknown ? { stripUnknown: true } : {}) as any,
+    ...(schema.definitions ? { definitions: schema.definitions } : {}),
+});
+
+/**
+ * Creates a `Validator` instance that matches on objects with only the given keys of an object type.
+ *
+ * @param v A `Validator` instance that specifies an object type.
+ * @param keys The keys of the object type to keep.
+ *
+ * @example
+ * ```typescript
+ * import * as v from 'validtyped';
+ *
+ * const user = v.object({ id: v.string(), name: v.string(), email: v.string() });
+ * const validator = v.pick(user, ['name', 'email']);
+ * const data: any = getData();
+ *
+ * if (validator.isValid(data)) doThing(data); // typeof data = `{ name: string, email: string }`;
+ * else throw new Error('oops!'); // typeof data = `any`
+ * ```
+ */
+export function pick<T extends PlainObject, K extends keyof T & keyof J & string, J extends PlainObject = T>(v: Validator<T, J>, keys: K[]): Validator<Pick<T, K>, Pick<J, K>> {
+    const schema = getObjectSchema(v, 'pick');
+    const properties: Record<string, Schema> = schema.properties || {};
+
+    return new Validator(reshapeObjectSchema(
+        schema,
+        keys.filter(key => key in properties).reduce((coll, key) => ({ ...coll, [key]: properties[key] }), {}),
+        (schema.required || []).filter(key => keys.includes(key as K)),
+    ), composedContext([v]));
+}
+
+/**
+ * Creates a `Validator` instance that matches on objects without the given keys of an object type.
+ *
+ * @param v A `Validator` instance that specifies an object type.
+ * @param keys The keys of the object type to remove.
+ *
+ * @example
+ * ```typescript
+ * import * as v from 'validtyped';
+ *
+ * const user = v.object({ id: v.string(), name: v.string() });
+ * const validator = v.omit(user, ['id']);
+ * const data: any = getData();
+ *
+ * if (validator.isValid(data)) doThing(data); // typeof data = `{ name: string }`;
+ * else throw new Error('oops!'); // typeof data = `any`
+ * ```
+ */
+export function omit<T extends PlainObject, K extends keyof T & keyof J & string, J extends PlainObject = T>(v: Validator<T, J>, keys: K[]): Validator<Omit<T, K>, Omit<J, K>> {
+    const schema = getObjectSchema(v, 'omit');
+    const properties: Record<string, Schema> = schema.properties || {};
+
+    return new Validator(reshapeObjectSchema(
+        schema,
+        Object.keys(properties).filter(key => !keys.includes(key as K)).reduce((coll, key) => ({ ...coll, [key]: properties[key] }), {}),
+        (schema.required || []).filter(key => !keys.includes(key as K)),
+    ), composedContext([v]));
+}
+
+/**
+ * Creates a `Validator` instance that matches on objects with the keys of both of the given object types, as a single object schema.
+ * Keys that are in both object types take the type of the second object type, in the same way as object spread.
+ * Unknown keys are rejected if either object type is `strict`, and are otherwise stripped if either object type uses `strip`.
+ *
+ * @param v1 A `Validator` instance that specifies an object type.
+ * @param v2 A `Validator` instance that specifies an object type, whose keys take precedence.
  *
  * @example
  * ```typescript
  * import * as v from 'validtyped';
  *
- * const validator = v.string();
+ * const validator = v.merge( v.object({ a: v.string(), b: v.string() }), v.object({ b: v.number() }) );
  * const data: any = getData();
  *
- * if (validator.isValid(data)) doThing(data); // typeof data => `string`
- * else throw new Error('oops!'); // typeof data => `any`
+ * if (validator.isValid(data)) doThing(data); // typeof data = `{ a: string, b: number }`;
+ * else throw new Error('oops!'); // typeof data = `any`
  * ```
  */
-export function string(): Validator<string>;
-export function string<S extends string>(union?: S[]): Validator<S>;
-export function string(union?: string[]) {
-    const e = union ? { enum: union } : {};
-    return new Validator({ type: 'string', ...e });
+export function merge<T1 extends PlainObject, T2 extends PlainObject, J1 extends PlainObject = T1, J2 extends PlainObject = T2>(v1: Validator<T1, J1>, v2: Validator<T2, J2>): Validator<Omit<T1, Extract<keyof T1, keyof T2>> & T2, Omit<J1, Extract<keyof J1, keyof J2>> & J2> {
+    const s1: any = getObjectSchema(v1, 'merge');
+    const s2: any = getObjectSchema(v2, 'merge');
+
+    const p2: Record<string, Schema> = s2.properties || {};
+    const properties = { ...s1.properties, ...p2 };
+    const required = [
+        ...(s1.required || []).filter((key: string) => !(key in p2)),
+        ...(s2.required || []),
+    ];
+
+    const strict = s1.additionalProperties === false || s2.additionalProperties === false;
+    const strip = !strict && (s1.stripUnknown === true || s2.stripUnknown === true);
+
+    const definitions: Record<string, any> = {};
+    [s1, s2].forEach(schema => addDefinitions(definitions, schema.definitions || {}));
+
+    return new Validator(reshapeObjectSchema(
+        {
+            ...(strict ? { additionalProperties: false } : {}),
+            ...(strip ? { stripUnknown: true } : {}),
+            ...(Object.keys(definitions).length > 0 ? { definitions } : {}),
+        },
+        properties,
+        required,
+    ), composedContext([v1, v2]));
 }
 
 /**
- * Creates a validator instance that is true when the given type is a number.
+ * Creates a `Validator` instance that matches on objects of the given object type with additional keys.
+ * Keys that are already part of the object type are replaced.
+ *
+ * @param v A `Validator` instance that specifies an object type.
+ * @param o An object whose keys will be required keys of the valid type and whose properties are `Validator` instances matching the valid property's types.
  *
  * @example
  * ```typescript
  * import * as v from 'validtyped';
  *
- * const validator = v.number();
+ * const newUser = v.object({ name: v.string() });
+ * const validator = v.extend(newUser, { id: v.string() });
  * const data: any = getData();
  *
- * if (validator.isValid(data)) doThing(data); // typeof data => `number`
- * else throw new Error('oops!'); // typeof data => `any`
+ * if (validator.isValid(data)) doThing(data); // typeof data = `{ name: string, id: string }`;
+ * else throw new Error('oops!'); // typeof data = `any`
  * ```
  */
-export function number(): Validator<number> {
-    return new Validator({ type: 'number' });
+export function extend<T extends PlainObject, O extends Record<string, Validator<any>>, J extends PlainObject = T>(v: Validator<T, J>, o: O): Validator<Omit<T, Extract<keyof T, keyof O>> & ObjectValidator<O>, Omit<J, Extract<keyof J, keyof O>> & ObjectWireType<O>> {
+    return merge(v, object(o));
 }
 
 /**
- * Creates a validator instance that is true when the given type is a boolean.
+ * Creates a `Validator` instance that matches on objects where every key of the given object type is required.
+ * Keys with a default value are still filled in during validation, so may remain missing from the data.
+ *
+ * @param v A `Validator` instance that specifies an object type.
  *
  * @example
  * ```typescript
  * import * as v from 'validtyped';
  *
- * const validator = v.boolean();
+ * const validator = v.required( v.object({ a: v.string(), b: v.number() }, { optional: ['b'] }) );
  * const data: any = getData();
  *
- * if (validator.isValid(data)) doThing(data); // typeof data => `boolean`
- * else throw new Error('oops!'); // typeof data => `any`
+ * if (validator.isValid(data)) doThing(data); // typeof data = `{ a: string, b: number }`;
+ * else throw new Error('oops!'); // typeof data = `any`
  * ```
  */
-export function boolean(): Validator<boolean> {
-    return new Validator({ type: 'boolean' });
+export function required<T extends PlainObject, J extends PlainObject = T>(v: Validator<T, J>): Validator<Required<T>, Required<J>> {
+    const schema = getObjectSchema(v, 'required');
+    const properties: Record<string, Schema> = schema.properties || {};
+
+    return new Validator(reshapeObjectSchema(
+        schema,
+        properties,
+        Object.keys(properties).filter(key => !('default' in properties[key])),
+    ), composedContext([v]));
 }
 
 /**
- * Creates a validator instance that is _always_ true.
- * This is useful for specifying that an object _must_ have a given parameter, but you don't care what type that parameter is.
+ * no-doc - Removes the required keys of every object schema within a schema.
+ */
+const deepPartialSchema = (schema: any): any => {
+    if (typeof schema !== 'object' || schema === null) return schema;
+
+    const copy = copyAnnotations(schema, { ...schema });
+    if (schema.type === 'object') copy.required = [];
+
+    ['properties', 'definitions'].filter(key => key in schema).forEach(key => {
+        copy[key] = Object.keys(schema[key])
+            .reduce((coll, name) => ({ ...coll, [name]: deepPartialSchema(schema[key][name]) }), {});
+    });
+
+    if (Array.isArray(schema.items)) copy.items = schema.items.map(deepPartialSchema);
+    ['items', 'additionalItems', 'additionalProperties'].filter(key => typeof schema[key] === 'object' && !Array.isArray(schema[key])).forEach(key => {
+        copy[key] = deepPartialSchema(schema[key]);
+    });
+    ['allOf', 'anyOf', 'oneOf'].filter(key => key in schema).forEach(key => {
+        copy[key] = schema[key].map(deepPartialSchema);
+    });
+
+    return copy;
+};
+
+/**
+ * Creates a `Validator` instance that matches on objects with no required keys at any depth,
+ * but mandated types for certain keys if they _do_ exist.
+ *
+ * @param v A `Validator` instance that specifies an object type.
  *
  * @example
  * ```typescript
  * import * as v from 'validtyped';
  *
+ * const validator = v.deepPartial( v.object({
+ *   a: v.string(),
+ *   b: v.object({ c: v.number() }),
+ * }));
  * const data: any = getData();
  *
- * const validator = v.object({ a: v.string(), b: v.any() });
- *
- * if (validator.isValid(data)) doThing(data); // typeof data => `{ a: string, b: any }`
- * else throw new Error('oops!'); // typeof data => `any`
+ * if (validator.isValid(data)) doThing(data); // typeof data = `{ a?: string, b?: { c?: number } }`;
+ * else throw new Error('oops!'); // typeof data = `any`
  * ```
  */
-export function any(): Validator<any> {
-    return new Validator({});
+export function deepPartial<T extends PlainObject, J extends PlainObject = T>(v: Validator<T, J>): Validator<DeepPartial<T>, DeepPartial<J>> {
+    getObjectSchema(v, 'deepPartial');
+    return new Validator(deepPartialSchema(v.getSchema()), composedContext([v]));
 }
 
+
 /**
- * Creates a validator instance that is true when given `null`.
+ * Creates a `Validator` instance that matches on arrays of the given type.
+ *
+ * @param v A `Validator` instance that specifies the shape of the array elements.
  *
  * @example
  * ```typescript
  * import * as v from 'validtyped';
  *
- * const data : any = getData();
- *
- * const validator = v.nil();
+ * const validator = v.array( v.number() );
+ * const data: any = getData();
  *
- * if (validator.isValid(data)) doThing(data); // typeof data => `null`
- * else throw new Error('oops!'); // typeof data => `any`
+ * if (validator.isValid(data)) doThing(data); // typeof data = `number[]`;
+ * else throw new Error('oops!'); // typeof data = `any`
  * ```
  */
-export function nil(): Validator<null> {
-    return new Validator({ type: 'null' });
+export function array<T, J = T>(v: Validator<T, J>) {
+    return new Validator<T[], J[]>({
+        type: 'array',
+        items: v.getSchema(),
+    }, composedContext([v]));
 }
 
 /**
- * Creates a validator instance that passes type checking through to the given validator.
- * Operates as an identity function for the runtime `Validator` type, but annotates the compile-time encapsulated `Validator<T>`
- * with a nominal string.
- *
- * This is useful for marking `id`s or other fields as being a _specific_ type that should not be edited.
+ * Creates a `Validator` instance that matches on fixed-length arrays whose elements match the given types positionally.
+ * If a `rest` validator is given, any number of additional elements matching `rest` are allowed after the positional elements.
  *
- * @param v The validator instance that will be passed through for checking runtime correctness.
- * @param s The nominal type tag for compile-time types.
+ * @param v A list of `Validator` instances that specify the type of each position in the tuple.
+ * @param rest [optional] A `Validator` instance that specifies the type of any elements after the positional elements.
  *
  * @example
  * ```typescript
  * import * as v from 'validtyped';
  *
- * const validator = v.nominal(v.string(), 'id');
+ * const validator = v.tuple([ v.string(), v.number() ]);
+ * const withRest = v.tuple([ v.string() ], v.boolean());
  * const data: any = getData();
  *
- * if (validator.isValid(data)) doThing(data); // typeof data => `Nominal<string, 'id'>`
- * else throw new Error('oops!'); // typeof data => `any`
- *
- * const id = 'user-id' as Nominal<string, 'id'>;
- * const newId = id + '-new'; // typeof data => `string`. Since we've modified this type, it can no longer be an `id`.
+ * if (validator.isValid(data)) doThing(data); // typeof data = `[string, number]`
+ * if (withRest.isValid(data)) doThing(data); // typeof data = `[string, ...boolean[]]`
  * ```
  */
-export function nominal<T, S extends string>(v: Validator<T>, s: S): Validator<Nominal<T, S>> {
-    return new Validator(v.getSchema());
+export function tuple<V extends TupleValidators>(v: V): Validator<TupleType<V>, TupleWireType<V>>;
+export function tuple<V extends TupleValidators, R, RJ = R>(v: V, rest: Validator<R, RJ>): Validator<TupleWithRest<TupleType<V>, R>, TupleWithRest<TupleWireType<V>, RJ>>;
+export function tuple(v: Array<Validator<any>>, rest?: Validator<any>) {
+    // draft-07 requires a non-empty `items` list, so an empty tuple is described by its length alone
+    const context = composedContext(rest ? [...v, rest] : v);
+    if (v.length === 0) return new Validator(rest ? { type: 'array', items: rest.getSchema() } : { type: 'array', maxItems: 0 }, context);
+
+    const items = v.map(x => x.getSchema());
+    const additionalItems = rest
+        ? { additionalItems: rest.getSchema(), minItems: items.length }
+        : { additionalItems: false, minItems: items.length, maxItems: items.length };
+
+    return new Validator({
+        type: 'array',
+        items,
+        ...additionalItems,
+    } as Schema, context);
 }
 
 /**
- * Creates a validator instance that validates the given data is an object, and every property of that object matches the given schemas.
- * By default, all listed properties **are required**.
- * By default, unlisted properties are also allowed.
+ * Creates a `Validator` instance that matches on any one of the given list of possible types.
  *
- * @param o An object whose keys will be required keys of the valid type and whose properties are `Validator` instances matching the valid property's types.
- * @param opts [optional] An options object
- * @param opts.optional [optional] A list of keys that should be marked as optional in the valid type.
+ * @param v A list of `Validator` instances that specify the possible types that the valid type could take.
  *
  * @example
  * ```typescript
  * import * as v from 'validtyped';
  *
- * const validator = v.object({ a: v.string(), b: v.number() });
+ * const validator = v.union([ v.string(), v.number() ]);
  * const data: any = getData();
  *
- * if (validator.isValid(data)) doThing(data); // typeof data = `{ a: string, b: number }`;
+ * if (validator.isValid(data)) doThing(data); // typeof data = `number | string`
  * else throw new Error('oops!'); // typeof data = `any`
  * ```
  */
-export function object<O extends Record<string, Validator<any>>>(o: O): Validator<ObjectValidator<O>>;
-export function object<O extends Record<string, Validator<any>>, OptionalKeys extends keyof O = never>(o: O, opts?: ObjectOptions<OptionalKeys>): Validator<OptionalObjectValidator<O, OptionalKeys>>;
-export function object<O extends Record<string, Validator<any>>, OptionalKeys extends keyof O = never>(o: O, opts?: ObjectOptions<OptionalKeys>) {
-    const options: AllRequired<ObjectOptions<OptionalKeys>> = {
-        optional: [] as OptionalKeys[],
-        ...opts,
-    };
+export function union<V extends Validator<any>>(v: V[]) {
+    return new Validator<ValidType<V>, WireType<V>>({
+        oneOf: v.map(x => x.getSchema()),
+    }, composedContext(v));
+}
 
+/**
+ * no-doc - Lists the tag in the properties of a variant that rejects or strips unknown keys, so that the tag is not treated as unknown.
+ */
+const withTagProperty = (schema: Schema, tag: string, value: string): Schema => {
+    if (!isClosedObject(schema)) return schema;
 
-    const properties = objectKeys(o).reduce((coll, key) => {
-        coll[key] = o[key].getSchema();
+    const properties = { [tag]: { const: value }, ...(schema as ObjectSchema).properties };
+    return copyAnnotations(schema, { ...schema, properties } as Schema);
+};
+
+/**
+ * Creates a `Validator` instance for a discriminated union of object types.
+ * The value of the `tag` key is read first, and only the variant with that tag is validated,
+ * so errors are reported for the matching variant alone (or as an unknown tag).
+ *
+ * @param tag The name of the key that holds the tag of each variant.
+ * @param variants An object whose keys are the possible tag values and whose values are the `Validator` of each variant.
+ *
+ * @example
+ * ```typescript
+ * import * as v from 'validtyped';
+ *
+ * const validator = v.taggedUnion('kind', {
+ *   circle: v.object({ radius: v.number() }),
+ *   square: v.object({ side: v.number() }),
+ * });
+ * const data: any = getData();
+ *
+ * if (validator.isValid(data)) {
+ *   if (data.kind === 'circle') drawCircle(data.radius);
+ *   else drawSquare(data.side);
+ * }
+ * ```
+ */
+export function taggedUnion<K extends string, M extends Record<string, Validator<any>>>(tag: K, variants: M) {
+    const tags = Object.keys(variants);
+
+    return new Validator<TaggedUnionType<K, M>, TaggedUnionWireType<K, M>>({
+        type: 'object',
+        required: [ tag ],
+        allOf: tags.map(value => ({
+            if: { type: 'object', properties: { [tag]: { const: value } }, required: [ tag ] },
+            then: withTagProperty(variants[value].getSchema(), tag, value),
+        })),
+        ...{ discriminator: { propertyName: tag } } as any,
+    }, composedContext(tags.map(value => variants[value])));
+}
+
+/**
+ * no-doc - The keywords of an object schema that can be merged with another object schema by `mergeObjectSchemas`.
+ */
+const mergeableKeywords = ['type', 'properties', 'required', 'additionalProperties', 'stripUnknown', 'title', 'description', 'definitions'];
+
+/**
+ * no-doc - Checks whether a schema describes an object that rejects or strips unknown keys.
+ */
+const isClosedObject = (schema: any) => schema.type === 'object' && (schema.additionalProperties === false || schema.stripUnknown === true);
+
+/**
+ * no-doc - Merges two object schemas into a single object schema that knows about the properties of both.
+ * The result rejects unknown keys if either side does, and otherwise strips them if either side does.
+ */
+const mergeObjectSchemas = (s1: any, s2: any): Schema => {
+    [s1, s2].forEach(schema => {
+        const annotations = getAnnotations(schema);
+        const mergeable = schema.type === 'object'
+            && Object.keys(schema).every(key => mergeableKeywords.includes(key))
+            && annotations.refine.length === 0 && annotations.refineAsync.length === 0 && !annotations.codec
+            && (schema.additionalProperties === undefined || schema.additionalProperties === false);
+
+        if (!mergeable) throw new Error('Can only intersect a strict or stripping object with another plain object');
+    });
+
+    const p1: Record<string, Schema> = s1.properties || {};
+    const p2: Record<string, Schema> = s2.properties || {};
+    const properties = [...Object.keys(p1), ...Object.keys(p2)].reduce((coll, key) => {
+        coll[key] = key in p1 && key in p2
+            ? { allOf: [p1[key], p2[key]] }
+            : p1[key] || p2[key];
         return coll;
-    }, {} as Record<keyof O, Schema>);
+    }, {} as Record<string, Schema>);
 
-    const required = Object.keys(o).filter(key => !options.optional.includes(key as OptionalKeys));
+    const required: string[] = [...(s1.required || []), ...(s2.required || [])];
+    const strict = s1.additionalProperties === false || s2.additionalProperties === false;
 
-    return new Validator({
+    const definitions: Record<string, Schema> = {};
+    [s1, s2].forEach(schema => addDefinitions(definitions, schema.definitions || {}));
+
+    return {
         type: 'object',
         properties,
-        required,
-    });
-}
+        required: required.filter((key, i) => required.indexOf(key) === i),
+        ...(strict ? { additionalProperties: false } : { stripUnknown: true }) as any,
+        ...(Object.keys(definitions).length > 0 ? { definitions } : {}),
+    };
+};
 
 /**
- * Creates a `Validator` instance that matches on objects with _any_ keys, and whose properties match the given `Validator`.
- *
- * This is useful for "dictionary"-like objects, for instance a record of users by userId.
+ * Creates a `Validator` instance that matches on _both_ of the given possible types.
+ * When either type is an object created with the `strict` or `strip` option, the two objects are merged into a single object
+ * so that the keys of each side are known to the other.
  *
- * @param types A `Validator` instance that specifies the right-side types of the record.
+ * @param v1 A `Validator` instance that the specified type must match.
+ * @param v2 A `Validator` instance that the specified type must match.
  *
  * @example
  * ```typescript
  * import * as v from 'validtyped';
  *
- * const validator = v.record( v.number() );
+ * const validator = v.intersect( v.object({ a: v.string() }), v.object({ b: v.number() }) );
  * const data: any = getData();
  *
- * if (validator.isValid(data)) doThing(data); // typeof data = `Record<string, number>`;
+ * if (validator.isValid(data)) doThing(data); // typeof data = `{ a: string, b: number }`
  * else throw new Error('oops!'); // typeof data = `any`
  * ```
  */
-export function record<T>(types: Validator<T>) {
-    return new Validator<Record<string, T>>({
-        type: 'object',
-        additionalProperties: types.getSchema(),
-    });
+export function intersect<T1, T2, J1 = T1, J2 = T2>(v1: Validator<T1, J1>, v2: Validator<T2, J2>) {
+    const s1 = v1.getSchema();
+    const s2 = v2.getSchema();
+
+    // `additionalProperties` only knows about the properties listed next to it,
+    // so a closed object would reject the properties of the other side of an `allOf`
+    const context = composedContext([v1, v2]);
+    if (isClosedObject(s1) || isClosedObject(s2)) return new Validator<T1 & T2, J1 & J2>(mergeObjectSchemas(s1, s2), context);
+
+    return new Validator<T1 & T2, J1 & J2>({ allOf: [s1, s2] }, context);
 }
 
 /**
- * Creates a `Validator` instance that matches on objects with no required keys, but mandated types for certain keys if they _do_ exist.
+ * Creates a `Validator` instance for a recursive type.
+ * The given function receives a `Validator` that refers back to the type being defined, and can be used anywhere within its definition.
+ * The recursive type is added to the `definitions` of the JSON schema under the given name, and referred to with `$ref`.
+ * When it is nested inside of other schemas, its definitions are moved to the root of those schemas so that the references still resolve.
  *
- * @param v A `Validator` instance that specifies an object type.
+ * Mutually recursive types can be defined by nesting calls to `recursive`.
+ * Because typescript cannot infer a type from its own definition, the recursive type must be given explicitly.
+ *
+ * @param name A name for the recursive type. Must be unique among the recursive types used within a single schema.
+ * @param f A function that receives a reference to the recursive type and returns its definition.
  *
  * @example
  * ```typescript
  * import * as v from 'validtyped';
  *
- * const validator = v.partial( v.object({
- *   a: v.string(),
- *   b: v.number(),
+ * interface Node { value: number, children: Node[] }
+ *
+ * const validator = v.recursive<Node>('Node', node => v.object({
+ *   value: v.number(),
+ *   children: v.array(node),
  * }));
  * const data: any = getData();
  *
- * if (validator.isValid(data)) doThing(data); // typeof data = `{ a?: string, b?: number }`;
+ * if (validator.isValid(data)) doThing(data); // typeof data = `Node`
  * else throw new Error('oops!'); // typeof data = `any`
  * ```
  */
-export function partial<T extends PlainObject>(v: Validator<T>): Validator<Partial<T>> {
-    const schema = v.getSchema();
-    if (!('type' in schema)) throw new Error('Must apply partial only to a type definition');
-    if (schema.type !== 'object') throw new Error('Must only apply partial to an object schema');
-    return new Validator({
-        ...schema,
-        required: [],
-    });
-}
+export function recursive<T, J = T>(name: string, f: (self: Validator<T, J>) => Validator<T, J>): Validator<T, J> {
+    const $ref = `#/definitions/${name}`;
+    const definition = f(new Validator<T, J>({ $ref }));
 
+    return new Validator<T, J>({ definitions: { [name]: definition.getSchema() }, $ref }, composedContext([definition]));
+}
 
 /**
- * Creates a `Validator` instance that matches on arrays of the given type.
+ * Creates a `Validator` instance that checks JSON data with the given validator, and converts between the JSON data and another type with the given codec.
+ * `validate` and `parse` decode valid data into the new type, and `encode` converts values of the new type back into JSON data.
+ * The JSON schema (and `isValid`) still describe the JSON data.
  *
- * @param v A `Validator` instance that specifies the shape of the array elements.
+ * @param v A `Validator` instance for the JSON form of the type.
+ * @param c An object with a `decode` function converting the JSON form into the type, and an `encode` function converting it back.
  *
  * @example
  * ```typescript
  * import * as v from 'validtyped';
  *
- * const validator = v.array( v.number() );
- * const data: any = getData();
+ * const url = v.codec(v.string().withOptions({ format: 'uri' }), {
+ *   decode: json => new URL(json),
+ *   encode: value => value.href,
+ * });
  *
- * if (validator.isValid(data)) doThing(data); // typeof data = `number[]`;
- * else throw new Error('oops!'); // typeof data = `any`
+ * const site = v.object({ home: url }).parse(data); // typeof site => `{ home: URL }`
  * ```
  */
-export function array<T>(v: Validator<T>) {
-    return new Validator<T[]>({
-        type: 'array',
-        items: [ v.getSchema() ],
-        additionalItems: true,
-    });
+export function codec<T, J, W = J>(v: Validator<J, W>, c: Codec<T, J>): Validator<T, W> {
+    const schema = v.getSchema();
+
+    // a schema can only have a single codec, so the codec of a codec is applied to a schema that wraps it
+    const copy = getAnnotations(schema).codec
+        ? copyNominalName(schema, { allOf: [ schema ] })
+        : copyAnnotations(schema, { ...schema });
+
+    return new Validator<T, W>(annotate(copy, { codec: c }), composedContext([v]));
 }
 
 /**
- * Creates a `Validator` instance that matches on any one of the given list of possible types.
+ * Creates a `Validator` instance for dates, which are sent as RFC 3339 date-time strings (`2018-11-13T20:20:39.000Z`).
  *
- * @param v A list of `Validator` instances that specify the possible types that the valid type could take.
+ * @example
+ * ```typescript
+ * import * as v from 'validtyped';
+ *
+ * const event = v.object({ at: v.isoDate() });
+ *
+ * const data = event.parse({ at: '2018-11-13T20:20:39.000Z' }); // typeof data => `{ at: Date }`
+ * const json = event.encode(data); // typeof json => `{ at: string }`
+ * ```
+ */
+export function isoDate(): Validator<Date, string> {
+    return codec(string().withOptions({ format: 'date-time' }), {
+        decode: json => new Date(json),
+        encode: value => value.toISOString(),
+    });
+}
+
+/**
+ * Creates a `Validator` instance for `bigint`s, which are sent as strings of digits so that no precision is lost.
  *
  * @example
  * ```typescript
  * import * as v from 'validtyped';
  *
- * const validator = v.union([ v.string(), v.number() ]);
- * const data: any = getData();
+ * const account = v.object({ balance: v.bigint() });
  *
- * if (validator.isValid(data)) doThing(data); // typeof data = `number | string`
- * else throw new Error('oops!'); // typeof data = `any`
+ * const data = account.parse({ balance: '9007199254740993' }); // typeof data => `{ balance: bigint }`
  * ```
  */
-export function union<V extends Validator<any>>(v: V[]) {
-    return new Validator<ValidType<V>>({
-        oneOf: v.map(x => x.getSchema()),
+export function bigint(): Validator<bigint, string> {
+    return codec(string().withOptions({ pattern: '^-?\\d+$' }), {
+        decode: json => BigInt(json),
+        encode: value => value.toString(),
     });
 }
 
 /**
- * Creates a `Validator` instance that matches on _both_ of the given possible types.
+ * no-doc - The JSON schema keywords that `fromSchema` knows how to represent.
+ */
+const supportedKeywords = [
+    '$schema', '$id', 'id', '$ref', 'title', 'description', 'default', 'examples', 'definitions',
+    'type', 'enum', 'const', 'allOf', 'anyOf', 'oneOf',
+    'minLength', 'maxLength', 'pattern', 'format',
+    'minimum', 'maximum', 'exclusiveMinimum', 'exclusiveMaximum', 'multipleOf',
+    'items', 'additionalItems', 'minItems', 'maxItems', 'uniqueItems',
+    'properties', 'required', 'additionalProperties', 'minProperties', 'maxProperties',
+];
+
+/**
+ * no-doc - Throws if the given schema, or any of its sub-schemas, uses a keyword that `fromSchema` cannot represent.
+ * @param schema a JSON schema
+ * @param path the JSON pointer of the given schema, used for error messages
+ */
+const assertSupportedSchema = (schema: any, path: string): void => {
+    if (typeof schema !== 'object' || schema === null || Array.isArray(schema)) throw new Error(`Expected a schema object at ${path}`);
+
+    const unsupported = Object.keys(schema).filter(key => !supportedKeywords.includes(key));
+    if (unsupported.length > 0) throw new Error(`Unsupported JSON schema keyword(s) ${unsupported.map(k => `"${k}"`).join(', ')} at ${path}`);
+
+    const subSchemas = (key: string) => schema[key] as Record<string, any>;
+
+    ['properties', 'definitions'].filter(key => key in schema).forEach(key => {
+        Object.keys(subSchemas(key)).forEach(prop => assertSupportedSchema(subSchemas(key)[prop], `${path}/${key}/${prop}`));
+    });
+
+    ['allOf', 'anyOf', 'oneOf'].filter(key => key in schema).forEach(key => {
+        (schema[key] as any[]).forEach((sub, i) => assertSupportedSchema(sub, `${path}/${key}/${i}`));
+    });
+
+    if (Array.isArray(schema.items)) schema.items.forEach((sub: any, i: number) => assertSupportedSchema(sub, `${path}/items/${i}`));
+    else if ('items' in schema) assertSupportedSchema(schema.items, `${path}/items`);
+
+    ['additionalItems', 'additionalProperties']
+        .filter(key => typeof schema[key] === 'object')
+        .forEach(key => assertSupportedSchema(schema[key], `${path}/${key}`));
+};
+
+/**
+ * Creates a `Validator` instance from an existing JSON schema.
+ * The valid type is inferred from the schema, so the schema should be declared `as const` to keep its literal types from being widened.
  *
- * @param v1 A `Validator` instance that the specified type must match.
- * @param v2 A `Validator` instance that the specified type must match.
+ * Throws if the schema uses a keyword that cannot be represented by this library (for instance `not` or `patternProperties`).
+ *
+ * @param schema A JSON schema object.
  *
  * @example
  * ```typescript
  * import * as v from 'validtyped';
  *
- * const validator = v.intersect( v.object({ a: v.string() }), v.object({ b: v.number() }) );
+ * const schema = {
+ *   type: 'object',
+ *   properties: {
+ *     a: { type: 'string' },
+ *     b: { type: 'array', items: { type: 'number' } },
+ *   },
+ *   required: ['a'],
+ * } as const;
+ *
+ * const validator = v.fromSchema(schema);
  * const data: any = getData();
  *
- * if (validator.isValid(data)) doThing(data); // typeof data = `{ a: string, b: number }`
+ * if (validator.isValid(data)) doThing(data); // typeof data = `{ a: string, b?: number[] }`
  * else throw new Error('oops!'); // typeof data = `any`
  * ```
  */
-export function intersect<T1, T2>(v1: Validator<T1>, v2: Validator<T2>) {
-    return new Validator<T1 & T2>({ allOf: [v1.getSchema(), v2.getSchema()] });
+export function fromSchema<S extends object>(schema: S): Validator<SchemaType<S>> {
+    assertSupportedSchema(schema, '#');
+    return new Validator(schema as any);
 }
 
 /**
@@ -577,4 +2257,21 @@ export function intersect<T1, T2>(v1: Validator<T1>, v2: Validator<T2>) {
  * type x = v.ValidType<typeof validator>; // `string`
  * ```
  */
-export type ValidType<V extends Validator<any>> = V extends Validator<infer T> ? T : never;
+export type ValidType<V extends Validator<any>> = V extends Validator<infer T, any> ? T : never;
+
+/**
+ * Get the JSON type of the data that a validator checks.
+ * This is the same as the `ValidType` of the validator, unless the validator uses codecs to decode the data.
+ * @param V a `Validator` instance
+ *
+ * @example
+ * ```typescript
+ * import * as v from 'validtyped';
+ *
+ * const event = v.object({ at: v.isoDate() });
+ *
+ * type Event = v.ValidType<typeof event>; // { at: Date }
+ * type EventJson = v.WireType<typeof event>; // { at: string }
+ * ```
+ */
+export type WireType<V extends Validator<any>> = V extends Validator<any, infer J> ? J : never;
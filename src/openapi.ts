@@ -0,0 +1,314 @@
+import { declarationName } from './codegen';
+import { Validator } from './index';
+
+/**
+ * The HTTP methods that an OpenAPI path can describe an operation for.
+ */
+export type HttpMethod = 'get' | 'put' | 'post' | 'delete' | 'options' | 'head' | 'patch' | 'trace';
+
+/**
+ * A single operation of an API, described by the validators that check its inputs and outputs.
+ * `params` and `query` must be object validators, with one property per parameter.
+ * `response` describes the `200` response, and `responses` describes the responses for any other status codes.
+ */
+export interface Route {
+    method: HttpMethod;
+    path: string;
+    summary?: string;
+    description?: string;
+    operationId?: string;
+    tags?: string[];
+    params?: Validator<any, any>;
+    query?: Validator<any, any>;
+    body?: Validator<any, any>;
+    response?: Validator<any, any>;
+    responses?: Record<string, Validator<any, any>>;
+}
+
+/**
+ * The `info` object of an OpenAPI document.
+ */
+export interface OpenApiInfo {
+    title: string;
+    version: string;
+    description?: string;
+}
+
+/**
+ * An OpenAPI 3.0 document, as created by `toOpenApi`.
+ */
+export interface OpenApiDocument {
+    openapi: '3.0.3';
+    info: OpenApiInfo;
+    paths: Record<string, Record<string, object>>;
+    components: { schemas: Record<string, object> };
+}
+
+/**
+ * no-doc - Tracks the named schemas that have been added to the components of the document.
+ * The original schemas are kept so that two different schemas with the same name can be detected.
+ */
+interface OpenApiContext {
+    schemas: Record<string, object>;
+    declared: Map<string, object>;
+}
+
+/**
+ * no-doc - Keywords that OpenAPI 3.0 does not support, or that are only understood by this library.
+ * Those that can be expressed differently (such as `const`) are translated before being removed.
+ */
+const omittedKeywords = [
+    '$schema', '$id', 'id', 'definitions', 'const', 'examples', 'if', 'then', 'else', 'additionalItems',
+    'stripUnknown', 'discriminator',
+];
+
+const reference = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+const isNullSchema = (schema: any) => typeof schema === 'object' && schema !== null && schema.type === 'null';
+
+const mapValues = (o: Record<string, any>, f: (value: any) => any) => Object.keys(o)
+    .reduce((mapped, key) => ({ ...mapped, [key]: f(o[key]) }), {} as Record<string, any>);
+
+/**
+ * no-doc - Adds the tag of a `taggedUnion` variant to the converted schema of that variant.
+ */
+const withTag = (schema: any, tag: string, value: string) => ({
+    ...schema,
+    properties: { [tag]: { type: 'string', enum: [ value ] }, ...schema.properties },
+    required: [ tag, ...(schema.required || []).filter((key: string) => key !== tag) ],
+});
+
+/**
+ * no-doc - Converts a `taggedUnion` into a `oneOf` with an OpenAPI `discriminator`.
+ * Variants that are declared as components are listed in the discriminator's `mapping`.
+ */
+const convertTaggedUnion = (schema: any, ctx: OpenApiContext) => {
+    const tag: string = schema.discriminator.propertyName;
+    const mapping: Record<string, string> = {};
+
+    const oneOf = schema.allOf.map((branch: any) => {
+        const value: string = branch.if.properties[tag].const;
+        const variant = convert(branch.then, ctx);
+        if (!variant.$ref) return withTag(variant, tag, value);
+
+        mapping[value] = variant.$ref;
+        return variant;
+    });
+
+    const meta = ['title', 'description'].filter(key => key in schema).reduce((m, key) => ({ ...m, [key]: schema[key] }), {});
+    const discriminator = Object.keys(mapping).length > 0 ? { propertyName: tag, mapping } : { propertyName: tag };
+
+    return { ...meta, oneOf, discriminator };
+};
+
+/**
+ * no-doc - Converts a union, removing its `null` branch (if any) in favor of OpenAPI's `nullable`.
+ * A union with a single remaining branch is replaced by that branch.
+ */
+const convertUnion = (key: 'anyOf' | 'oneOf', branches: any[], ctx: OpenApiContext) => {
+    const rest = branches.filter(branch => !isNullSchema(branch));
+    const nullable = rest.length < branches.length ? { nullable: true } : {};
+
+    if (rest.length !== 1) return { [key]: rest.map(branch => convert(branch, ctx)), ...nullable };
+
+    // the siblings of a `$ref` are ignored, so a nullable reference has to be wrapped
+    const single = convert(rest[0], ctx);
+    return single.$ref ? { allOf: [ single ], ...nullable } : { ...single, ...nullable };
+};
+
+/**
+ * no-doc - Converts the `type` keyword, which can only be a single type (and never `null`) in OpenAPI 3.0.
+ */
+const convertType = (type: string | string[]) => {
+    const types = (Array.isArray(type) ? type : [ type ]).filter(t => t !== 'null');
+    const nullable = types.length < (Array.isArray(type) ? type.length : 1) ? { nullable: true } : {};
+
+    if (types.length === 0) return { ...nullable, enum: [ null ] };
+    if (types.length === 1) return { type: types[0], ...nullable };
+    return { anyOf: types.map(t => ({ type: t })), ...nullable };
+};
+
+/**
+ * no-doc - Converts a JSON schema to an OpenAPI 3.0 schema object, without considering its name.
+ */
+const convertStructure = (schema: any, ctx: OpenApiContext): any => {
+    declareDefinitions(schema, ctx);
+
+    if (typeof schema.$ref === 'string') return reference(schema.$ref.replace(/^#\/definitions\//, ''));
+    if (schema.discriminator) return convertTaggedUnion(schema, ctx);
+
+    const result: any = Object.keys(schema)
+        .filter(key => !omittedKeywords.includes(key))
+        .reduce((copy, key) => ({ ...copy, [key]: schema[key] }), {});
+
+    if ('type' in schema) {
+        delete result.type;
+        Object.assign(result, convertType(schema.type));
+    }
+    if ('const' in schema) result.enum = [ schema.const ];
+    if (Array.isArray(schema.examples) && schema.examples.length > 0) result.example = schema.examples[0];
+
+    // OpenAPI 3.0 uses the boolean form of the exclusive bounds from draft-04
+    if (typeof schema.exclusiveMinimum === 'number') Object.assign(result, { minimum: schema.exclusiveMinimum, exclusiveMinimum: true });
+    if (typeof schema.exclusiveMaximum === 'number') Object.assign(result, { maximum: schema.exclusiveMaximum, exclusiveMaximum: true });
+
+    if (schema.properties) result.properties = mapValues(schema.properties, property => convert(property, ctx));
+    if (typeof schema.additionalProperties === 'object') result.additionalProperties = convert(schema.additionalProperties, ctx);
+    if (schema.not) result.not = convert(schema.not, ctx);
+
+    // OpenAPI 3.0 cannot describe tuples, so they are described as arrays of any of their item types,
+    // with `anyOf` rather than `oneOf` because items of the same type would otherwise match more than one of them
+    if (Array.isArray(schema.items)) {
+        const rest = typeof schema.additionalItems === 'object' ? [ schema.additionalItems ] : [];
+        const items = [...schema.items, ...rest]
+            .map(item => convert(item, ctx))
+            .filter((item, i, all) => all.findIndex(other => JSON.stringify(other) === JSON.stringify(item)) === i);
+        result.items = items.length === 1 ? items[0] : { anyOf: items };
+    } else if (typeof schema.items === 'object') {
+        result.items = convert(schema.items, ctx);
+    }
+
+    if (Array.isArray(schema.allOf)) result.allOf = schema.allOf.map((sub: any) => convert(sub, ctx));
+
+    (['anyOf', 'oneOf'] as const).filter(key => Array.isArray(schema[key])).forEach(key => {
+        delete result[key];
+        Object.assign(result, convertUnion(key, schema[key], ctx));
+    });
+
+    return result;
+};
+
+/**
+ * no-doc - Adds a named schema to the components of the document.
+ */
+const declare = (name: string, schema: any, ctx: OpenApiContext) => {
+    const existing = ctx.declared.get(name);
+    if (existing && existing !== schema && JSON.stringify(existing) !== JSON.stringify(schema)) {
+        throw new Error(`Cannot add two different schemas named '${name}' to the components of an OpenAPI document`);
+    }
+    if (existing) return;
+
+    // declare the name before converting, so that recursive schemas refer to it instead of being converted again
+    ctx.declared.set(name, schema);
+    ctx.schemas[name] = convertStructure(schema, ctx);
+};
+
+/**
+ * no-doc - Adds the `definitions` of a schema (such as those of recursive types) to the components of the document.
+ */
+const declareDefinitions = (schema: any, ctx: OpenApiContext) => {
+    if (typeof schema.definitions !== 'object') return;
+    Object.keys(schema.definitions).forEach(name => declare(name, schema.definitions[name], ctx));
+};
+
+/**
+ * no-doc - Converts a JSON schema to an OpenAPI 3.0 schema object.
+ * Schemas with a `title` are added to the components and referenced by name.
+ */
+const convert = (schema: any, ctx: OpenApiContext): any => {
+    if (typeof schema !== 'object' || schema === null) return schema;
+
+    const name = declarationName(schema);
+    if (!name) return convertStructure(schema, ctx);
+
+    declare(name, schema, ctx);
+    return reference(name);
+};
+
+const describeRoute = (route: Route) => `${route.method.toUpperCase()} ${route.path}`;
+
+const parameters = (validator: Validator<any, any>, location: 'path' | 'query', route: Route, ctx: OpenApiContext) => {
+    const schema: any = validator.getSchema();
+    if (schema.type !== 'object' || !schema.properties) throw new Error(`Must only describe the ${location} parameters of ${describeRoute(route)} with an object schema`);
+
+    // the parameters are converted one by one, so the definitions that they refer to are added separately
+    declareDefinitions(schema, ctx);
+
+    const required: string[] = schema.required || [];
+    return Object.keys(schema.properties).map(name => {
+        const property = schema.properties[name];
+        const description = property.description ? { description: property.description } : {};
+
+        return {
+            name,
+            in: location,
+            required: location === 'path' || required.includes(name),
+            ...description,
+            schema: convert(property, ctx),
+        };
+    });
+};
+
+const content = (validator: Validator<any, any>, ctx: OpenApiContext) => ({
+    'application/json': { schema: convert(validator.getSchema(), ctx) },
+});
+
+const operation = (route: Route, ctx: OpenApiContext) => {
+    const pathParams = route.params ? parameters(route.params, 'path', route, ctx) : [];
+    const queryParams = route.query ? parameters(route.query, 'query', route, ctx) : [];
+
+    const templated = (route.path.match(/{[^}]+}/g) || []).map(param => param.slice(1, -1));
+    const missing = templated.filter(name => !pathParams.some(param => param.name === name));
+    if (missing.length > 0) throw new Error(`The path parameter(s) ${missing.map(name => `'${name}'`).join(', ')} of ${describeRoute(route)} must be described by its params`);
+
+    const validators: Record<string, Validator<any, any>> = { ...(route.response ? { 200: route.response } : {}), ...route.responses };
+    const responses = Object.keys(validators).reduce((r, status) => ({
+        ...r,
+        [status]: {
+            description: validators[status].getSchema().description || `${status} response`,
+            content: content(validators[status], ctx),
+        },
+    }), {} as Record<string, object>);
+
+    const op: Record<string, unknown> = {};
+    (['summary', 'description', 'operationId', 'tags'] as const).filter(key => route[key] !== undefined).forEach(key => op[key] = route[key]);
+
+    if (pathParams.length + queryParams.length > 0) op.parameters = [...pathParams, ...queryParams];
+    if (route.body) op.requestBody = { required: true, content: content(route.body, ctx) };
+    op.responses = Object.keys(responses).length > 0 ? responses : { default: { description: 'Unspecified response' } };
+
+    return op;
+};
+
+/**
+ * Generates an OpenAPI 3.0 document describing the given routes, using the validators that check each route's inputs and outputs.
+ * Validators that have a `title` are added to `components/schemas` and referenced with `$ref`,
+ * `nil()` and `orNull()` are described with `nullable`, and `taggedUnion`s are described with a `discriminator`.
+ * Keywords that OpenAPI 3.0 cannot represent (such as refinements and the exact length of tuples) are left out.
+ *
+ * @param info The title and version of the API.
+ * @param routes The routes of the API.
+ * @returns an OpenAPI document, ready to be serialized as JSON.
+ *
+ * @example
+ * ```typescript
+ * import * as v from 'validtyped';
+ *
+ * const user = v.object({ id: v.string(), name: v.string() }).setSchemaMetaData({ title: 'User' });
+ *
+ * const document = v.toOpenApi({ title: 'Users', version: '1.0.0' }, [
+ *   { method: 'get', path: '/users/{id}', params: v.object({ id: v.string() }), response: user },
+ *   { method: 'post', path: '/users', body: v.omit(user, ['id']), response: user },
+ * ]);
+ *
+ * fs.writeFileSync('openapi.json', JSON.stringify(document, null, 2));
+ * ```
+ */
+export function toOpenApi(info: OpenApiInfo, routes: Route[]): OpenApiDocument {
+    const ctx: OpenApiContext = { schemas: {}, declared: new Map() };
+    const paths: Record<string, Record<string, object>> = {};
+
+    routes.forEach(route => {
+        const path = paths[route.path] = paths[route.path] || {};
+        if (route.method in path) throw new Error(`Cannot describe ${describeRoute(route)} more than once`);
+
+        path[route.method] = operation(route, ctx);
+    });
+
+    return {
+        openapi: '3.0.3',
+        info,
+        paths,
+        components: { schemas: ctx.schemas },
+    };
+}
@@ -0,0 +1,526 @@
+import { Validator } from './index';
+
+/**
+ * Options for `sample`.
+ * `seed` makes the generated data deterministic: the same seed always generates the same data for the same validator.
+ */
+export interface SampleOptions {
+    seed?: number;
+}
+
+/**
+ * Options for `Arbitrary.check`.
+ * `runs` is the number of values that the property is checked against (100 by default),
+ * and `seed` makes the checked values deterministic.
+ */
+export interface CheckOptions {
+    runs?: number;
+    seed?: number;
+}
+
+/**
+ * Generates random data that matches the schema of a validator, for property based tests.
+ * `generate` creates the data for a seed, `shrink` lists smaller variations of a value that still match the schema,
+ * and `check` tests a property against many generated values, shrinking the first value that fails it.
+ */
+export interface Arbitrary<T> {
+    generate(seed: number): T;
+    shrink(value: T): T[];
+    check(property: (value: T) => boolean | void, options?: CheckOptions): void;
+}
+
+/**
+ * no-doc - A seeded source of random numbers.
+ */
+interface Random {
+    next(): number;
+    int(min: number, max: number): number;
+    pick<T>(items: T[]): T;
+}
+
+/**
+ * no-doc - Tracks the state of generating a single value.
+ * Beyond `maxDepth` nested references, the smallest possible data is generated so that recursive types end.
+ */
+interface SampleContext {
+    random: Random;
+    root: any;
+    ids: Record<string, any>;
+    depth: number;
+}
+
+const maxDepth = 4;
+const maxAttempts = 100;
+
+const digits = '0123456789'.split('');
+const lowercase = 'abcdefghijklmnopqrstuvwxyz'.split('');
+const wordCharacters = [...lowercase, ...lowercase.map(c => c.toUpperCase()), ...digits, '_'];
+const printable = Array.from({ length: 95 }, (_, i) => String.fromCharCode(32 + i));
+
+/**
+ * no-doc - Scrambles the state of the mulberry32 algorithm into a random 32-bit unsigned integer.
+ * The algorithm is defined with 32-bit integer arithmetic, which javascript only has through its bitwise operators.
+ */
+const mulberry32 = (state: number): number => {
+    const a = Math.imul(state ^ state >>> 15, 1 | state); // tslint:disable-line:no-bitwise
+    const b = a + Math.imul(a ^ a >>> 7, 61 | a) ^ a; // tslint:disable-line:no-bitwise
+    return (b ^ b >>> 14) >>> 0; // tslint:disable-line:no-bitwise
+};
+
+/**
+ * no-doc - Creates a random number generator using the mulberry32 algorithm, which is small, fast, and good enough for test data.
+ */
+const createRandom = (seed: number): Random => {
+    let state = Math.floor(seed) % 4294967296;
+    const next = () => {
+        state = (state + 0x6D2B79F5) % 4294967296;
+        return mulberry32(state) / 4294967296;
+    };
+
+    return {
+        next,
+        int: (min, max) => min + Math.floor(next() * (max - min + 1)),
+        pick: items => items[Math.floor(next() * items.length)],
+    };
+};
+
+const randomSeed = () => Math.floor(Math.random() * 4294967296);
+
+const randomString = (random: Random, characters: string[], length: number) =>
+    Array.from({ length }, () => random.pick(characters)).join('');
+
+const word = (random: Random) => randomString(random, lowercase, random.int(3, 8));
+
+/**
+ * no-doc - A parsed regular expression, reduced to the parts needed to generate a matching string.
+ */
+type RegexNode =
+    { kind: 'chars', chars: string[] } |
+    { kind: 'sequence', nodes: RegexNode[] } |
+    { kind: 'alternation', branches: RegexNode[] } |
+    { kind: 'repeat', node: RegexNode, min: number, max: number };
+
+const escapes: Record<string, string[]> = {
+    d: digits,
+    w: wordCharacters,
+    s: [' '],
+    D: printable.filter(c => !digits.includes(c)),
+    W: printable.filter(c => !wordCharacters.includes(c)),
+    S: printable.filter(c => c !== ' '),
+    n: ['\n'],
+    r: ['\r'],
+    t: ['\t'],
+};
+
+/**
+ * no-doc - Parses the common subset of regular expression syntax: literals, escapes, character classes, groups, alternation and quantifiers.
+ * Lookarounds and back-references cannot be generated, so they are rejected.
+ */
+const parseRegex = (pattern: string): RegexNode => {
+    let pos = 0;
+    const unsupported = () => new Error(`Cannot generate a string matching the pattern /${pattern}/`);
+
+    const escape = (c: string): string[] => {
+        if (c === undefined || /[1-9]/.test(c)) throw unsupported();
+        return escapes[c] || [c];
+    };
+
+    const charClass = (): RegexNode => {
+        const negated = pattern[pos] === '^';
+        if (negated) pos++;
+
+        let chars: string[] = [];
+        let first = true;
+        while (pos < pattern.length && (pattern[pos] !== ']' || first)) {
+            first = false;
+            const c = pattern[pos++];
+            const start = c === '\\' ? escape(pattern[pos++]) : [c];
+
+            if (start.length === 1 && pattern[pos] === '-' && pattern[pos + 1] !== ']' && pos + 1 < pattern.length) {
+                const end = pattern[pos + 1] === '\\' ? escape(pattern[pos + 2]) : [pattern[pos + 1]];
+                pos += pattern[pos + 1] === '\\' ? 3 : 2;
+                const from = start[0].charCodeAt(0);
+                chars = [...chars, ...Array.from({ length: end[0].charCodeAt(0) - from + 1 }, (_, i) => String.fromCharCode(from + i))];
+            } else {
+                chars = [...chars, ...start];
+            }
+        }
+        if (pattern[pos++] !== ']') throw unsupported();
+
+        return { kind: 'chars', chars: negated ? printable.filter(c => !chars.includes(c)) : chars };
+    };
+
+    const atom = (): RegexNode => {
+        const c = pattern[pos++];
+        if (c === '^' || c === '$') return { kind: 'sequence', nodes: [] };
+        if (c === '.') return { kind: 'chars', chars: printable };
+        if (c === '[') return charClass();
+        if (c === '\\') {
+            // word boundaries do not consume any characters
+            if (pattern[pos] === 'b' || pattern[pos] === 'B') return pos++, { kind: 'sequence', nodes: [] };
+            return { kind: 'chars', chars: escape(pattern[pos++]) };
+        }
+        if (c === '(') {
+            if (pattern.startsWith('?:', pos)) pos += 2;
+            else if (pattern[pos] === '?') throw unsupported();
+
+            const node = alternation();
+            if (pattern[pos++] !== ')') throw unsupported();
+            return node;
+        }
+        return { kind: 'chars', chars: [c] };
+    };
+
+    const quantified = (node: RegexNode): RegexNode => {
+        const bounds = /^(?:\*|\+|\?|\{(\d+)(,(\d*))?\})/.exec(pattern.slice(pos));
+        if (!bounds) return node;
+        pos += bounds[0].length;
+        if (pattern[pos] === '?') pos++;
+
+        if (bounds[0] === '*') return { kind: 'repeat', node, min: 0, max: Infinity };
+        if (bounds[0] === '+') return { kind: 'repeat', node, min: 1, max: Infinity };
+        if (bounds[0] === '?') return { kind: 'repeat', node, min: 0, max: 1 };
+
+        const min = parseInt(bounds[1]);
+        const max = bounds[2] === undefined ? min : bounds[3] === '' ? Infinity : parseInt(bounds[3]);
+        return { kind: 'repeat', node, min, max };
+    };
+
+    const sequence = (): RegexNode => {
+        const nodes: RegexNode[] = [];
+        while (pos < pattern.length && pattern[pos] !== '|' && pattern[pos] !== ')') nodes.push(quantified(atom()));
+        return { kind: 'sequence', nodes };
+    };
+
+    const alternation = (): RegexNode => {
+        const branches = [ sequence() ];
+        while (pattern[pos] === '|') {
+            pos++;
+            branches.push(sequence());
+        }
+        return branches.length === 1 ? branches[0] : { kind: 'alternation', branches };
+    };
+
+    const root = alternation();
+    if (pos < pattern.length) throw unsupported();
+    return root;
+};
+
+const generateRegex = (node: RegexNode, random: Random): string => {
+    switch (node.kind) {
+        case 'chars': return random.pick(node.chars);
+        case 'sequence': return node.nodes.map(n => generateRegex(n, random)).join('');
+        case 'alternation': return generateRegex(random.pick(node.branches), random);
+        case 'repeat': return Array.from({ length: random.int(node.min, Math.min(node.max, node.min + 3)) }, () => generateRegex(node.node, random)).join('');
+    }
+};
+
+const hex = (random: Random, length: number) => randomString(random, [...digits, ...lowercase.slice(0, 6)], length);
+
+const randomDate = (random: Random) => new Date(random.int(0, 4102444800) * 1000);
+
+/**
+ * no-doc - Generators for the formats that Ajv knows about.
+ * Formats registered with `registerFormat` are only described by a predicate, so data cannot be generated for them.
+ */
+const formats: Record<string, (random: Random) => string> = {
+    'email': random => `${word(random)}@${word(random)}.com`,
+    'hostname': random => `${word(random)}.${word(random)}.com`,
+    'uri': random => `https://${word(random)}.com/${word(random)}`,
+    'uri-reference': random => `https://${word(random)}.com/${word(random)}`,
+    'url': random => `https://${word(random)}.com/${word(random)}`,
+    'uuid': random => `${hex(random, 8)}-${hex(random, 4)}-4${hex(random, 3)}-${random.pick(['8', '9', 'a', 'b'])}${hex(random, 3)}-${hex(random, 12)}`,
+    'date-time': random => randomDate(random).toISOString(),
+    'date': random => randomDate(random).toISOString().slice(0, 10),
+    'time': random => `${randomDate(random).toISOString().slice(11, 19)}Z`,
+    'ipv4': random => Array.from({ length: 4 }, () => random.int(0, 255)).join('.'),
+    'ipv6': random => Array.from({ length: 8 }, () => hex(random, 4)).join(':'),
+};
+
+const generateString = (schema: any, random: Random) => {
+    if (typeof schema.format === 'string') {
+        if (!formats[schema.format]) throw new Error(`Cannot generate data for the '${schema.format}' format`);
+        return formats[schema.format](random);
+    }
+
+    if (typeof schema.pattern === 'string') return generateRegex(parseRegex(schema.pattern), random);
+
+    const min = schema.minLength || 0;
+    const max = Math.min(schema.maxLength === undefined ? Infinity : schema.maxLength, min + 10);
+    return randomString(random, wordCharacters, random.int(min, max));
+};
+
+const decimalPlaces = (n: number) => (String(n).split('.')[1] || '').length;
+
+const generateNumber = (schema: any, random: Random) => {
+    const integer = schema.type === 'integer';
+    const step = schema.multipleOf || (integer ? 1 : 0);
+
+    const exclusiveMin = typeof schema.exclusiveMinimum === 'number' ? schema.exclusiveMinimum : undefined;
+    const exclusiveMax = typeof schema.exclusiveMaximum === 'number' ? schema.exclusiveMaximum : undefined;
+
+    let min = schema.minimum !== undefined ? schema.minimum : exclusiveMin !== undefined ? exclusiveMin : undefined;
+    let max = schema.maximum !== undefined ? schema.maximum : exclusiveMax !== undefined ? exclusiveMax : undefined;
+    if (min === undefined) min = max === undefined ? -1000 : max - 1000;
+    if (max === undefined) max = min + 1000;
+
+    if (step === 0) {
+        const value = min + random.next() * (max - min);
+        return value === exclusiveMin || value === exclusiveMax ? (min + max) / 2 : value;
+    }
+
+    // only multiples of the step are generated, which are rounded so that floating point error does not break `multipleOf`
+    const low = Math.ceil(min / step) + (exclusiveMin !== undefined && Math.ceil(min / step) * step === exclusiveMin ? 1 : 0);
+    const high = Math.floor(max / step) - (exclusiveMax !== undefined && Math.floor(max / step) * step === exclusiveMax ? 1 : 0);
+    return Number((random.int(low, high) * step).toFixed(decimalPlaces(step)));
+};
+
+const generateArray = (schema: any, ctx: SampleContext) => {
+    const tuple: any[] = Array.isArray(schema.items) ? schema.items : [];
+    const rest = Array.isArray(schema.items) ? schema.additionalItems : schema.items;
+
+    const min = Math.max(schema.minItems || 0, tuple.length);
+    const max = typeof rest === 'object' || rest === undefined
+        ? Math.min(schema.maxItems === undefined ? Infinity : schema.maxItems, min + (ctx.depth >= maxDepth ? 0 : 4))
+        : tuple.length;
+
+    const length = ctx.random.int(min, max);
+    const items: unknown[] = [];
+    const seen = new Set<string>();
+
+    for (let i = 0; items.length < length && i < length + maxAttempts; ++i) {
+        const index = items.length;
+        const item = generate(index < tuple.length ? tuple[index] : rest || {}, ctx);
+
+        if (schema.uniqueItems && seen.has(JSON.stringify(item))) continue;
+        seen.add(JSON.stringify(item));
+        items.push(item);
+    }
+
+    return items;
+};
+
+const generateObject = (schema: any, ctx: SampleContext) => {
+    const properties: Record<string, any> = schema.properties || {};
+    const required: string[] = schema.required || [];
+
+    const data = Object.keys(properties)
+        .filter(key => required.includes(key) || (ctx.depth < maxDepth && ctx.random.next() < 0.5))
+        .reduce((o, key) => ({ ...o, [key]: generate(properties[key], ctx) }), {} as Record<string, unknown>);
+
+    required.filter(key => !(key in data)).forEach(key => data[key] = generate({}, ctx));
+
+    if (typeof schema.additionalProperties === 'object' && ctx.depth < maxDepth) {
+        Array.from({ length: ctx.random.int(0, 3) }, () => word(ctx.random))
+            .filter(key => !(key in properties))
+            .forEach(key => data[key] = generate(schema.additionalProperties, ctx));
+    }
+
+    return data;
+};
+
+const resolveRef = (ref: string, ctx: SampleContext) => {
+    if (ref === '#') return ctx.root;
+    if (ref.startsWith('#/definitions/')) return ctx.root.definitions[ref.slice('#/definitions/'.length)];
+    if (ctx.ids[ref]) return ctx.ids[ref];
+    throw new Error(`Cannot generate data for the unknown reference '${ref}'`);
+};
+
+const containsRef = (schema: unknown): boolean => {
+    if (typeof schema !== 'object' || schema === null) return false;
+    if (typeof (schema as any).$ref === 'string') return true;
+    return Object.keys(schema).some(key => containsRef((schema as any)[key]));
+};
+
+/**
+ * no-doc - Combines the schemas of an `allOf` into a single schema that data can be generated from.
+ * This covers intersections of objects, while data for other combinations is checked (and retried) against the whole schema.
+ */
+const mergeSchemas = (schemas: any[], ctx: SampleContext): any => schemas
+    .map(schema => typeof schema.$ref === 'string' ? resolveRef(schema.$ref, ctx) : schema)
+    .map(schema => Array.isArray(schema.allOf) && !schema.discriminator ? mergeSchemas([{ ...schema, allOf: undefined }, ...schema.allOf], ctx) : schema)
+    .reduce((merged, schema) => ({
+        ...merged,
+        ...schema,
+        properties: { ...merged.properties, ...schema.properties },
+        required: [...(merged.required || []), ...(schema.required || [])],
+    }), {});
+
+/**
+ * no-doc - Generates random data for a schema.
+ * The data usually matches the schema, but keywords that cannot be generated directly (such as `not`) are only checked afterwards.
+ */
+const generate = (schema: any, ctx: SampleContext): unknown => {
+    if (schema === true || schema === undefined) return generate({}, ctx);
+    if (typeof schema.$id === 'string') ctx.ids[schema.$id] = schema;
+
+    if (typeof schema.$ref === 'string') {
+        ctx.depth++;
+        const data = generate(resolveRef(schema.$ref, ctx), ctx);
+        ctx.depth--;
+        return data;
+    }
+
+    if ('const' in schema) return schema.const;
+    if (Array.isArray(schema.enum)) return ctx.random.pick(schema.enum);
+
+    // a tagged union picks a variant, and then generates data for that variant alone
+    if (schema.discriminator) {
+        const tag = schema.discriminator.propertyName;
+        const branch = ctx.random.pick(schema.allOf as any[]);
+        const data = generate(branch.then, ctx);
+        return { ...(data as object), [tag]: branch.if.properties[tag].const };
+    }
+
+    if (Array.isArray(schema.allOf)) return generate(mergeSchemas([{ ...schema, allOf: undefined }, ...schema.allOf], ctx), ctx);
+
+    const union: any[] | undefined = schema.oneOf || schema.anyOf;
+    if (union) {
+        // past the maximum depth, branches that do not recurse are preferred so that the data ends
+        const ending = union.filter(branch => !containsRef(branch));
+        const branches = ctx.depth >= maxDepth && ending.length > 0 ? ending : union;
+        const branch = ctx.random.pick(branches);
+        return generate(mergeSchemas([{ ...schema, oneOf: undefined, anyOf: undefined }, branch], ctx), ctx);
+    }
+
+    const type = Array.isArray(schema.type) ? ctx.random.pick(schema.type) : schema.type;
+    switch (type) {
+        case 'string': return generateString(schema, ctx.random);
+        case 'number':
+        case 'integer': return generateNumber({ ...schema, type }, ctx.random);
+        case 'boolean': return ctx.random.next() < 0.5;
+        case 'null': return null;
+        case 'array': return generateArray(schema, ctx);
+        case 'object': return generateObject(schema, ctx);
+        default:
+            if (schema.properties || schema.required) return generateObject(schema, ctx);
+            if (schema.items) return generateArray(schema, ctx);
+            return generate({ type: ctx.random.pick(['string', 'number', 'boolean', 'null']) }, ctx);
+    }
+};
+
+/**
+ * no-doc - Lists smaller variations of a value, without considering any schema.
+ * Each variation changes a single part of the value, so that shrinking can narrow down the part that matters.
+ */
+const shrinkValue = (value: unknown): unknown[] => {
+    if (typeof value === 'number') {
+        const candidates = [0, Math.trunc(value), Math.trunc(value / 2), value - Math.sign(value)];
+        return candidates.filter((c, i) => Math.abs(c) < Math.abs(value) && candidates.indexOf(c) === i);
+    }
+
+    if (typeof value === 'string') {
+        const candidates = ['', value.slice(0, value.length / 2), value.slice(0, -1), value.slice(1)];
+        return candidates.filter((c, i) => c.length < value.length && candidates.indexOf(c) === i);
+    }
+
+    if (value === true) return [false];
+
+    if (Array.isArray(value)) {
+        const removed = value.length > 0 ? [[], value.slice(0, Math.floor(value.length / 2)), ...value.map((_, i) => [...value.slice(0, i), ...value.slice(i + 1)])] : [];
+        const shrunk = value.map((item, i) => shrinkValue(item).map(c => [...value.slice(0, i), c, ...value.slice(i + 1)]));
+        return [...removed, ...shrunk.reduce((all, c) => [...all, ...c], [])];
+    }
+
+    if (typeof value === 'object' && value !== null) {
+        const o = value as Record<string, unknown>;
+        const removed = Object.keys(o).map(key => {
+            const { [key]: _, ...rest } = o;
+            return rest;
+        });
+        const shrunk = Object.keys(o).map(key => shrinkValue(o[key]).map(c => ({ ...o, [key]: c })));
+        return [...removed, ...shrunk.reduce((all, c) => [...all, ...c], [])];
+    }
+
+    return [];
+};
+
+const fails = <T>(property: (value: T) => boolean | void, value: T) => {
+    try {
+        return property(value) === false;
+    } catch (e) {
+        return true;
+    }
+};
+
+/**
+ * Creates an `Arbitrary` that generates random data matching the schema of the given validator, for property based tests.
+ * Data is generated for enums, required and optional keys, nested arrays and objects, unions, tagged unions, string formats and patterns,
+ * and the numeric and string constraints set with `withOptions`.
+ * Generated data is checked against the validator (including refinements), and generated again if it does not match.
+ *
+ * @param validator The validator whose schema the data should match.
+ *
+ * @example
+ * ```typescript
+ * import * as v from 'validtyped';
+ *
+ * const user = v.object({ name: v.string(), age: v.integer() });
+ *
+ * test('Can round trip users', () => {
+ *   v.arbitrary(user).check(u => {
+ *     expect(deserialize(serialize(u))).toEqual(u);
+ *   });
+ * });
+ * ```
+ */
+export function arbitrary<T, J>(validator: Validator<T, J>): Arbitrary<J> {
+    const schema = validator.getSchema();
+
+    const generateValue = (seed: number): J => {
+        const random = createRandom(seed);
+
+        for (let attempt = 0; attempt < maxAttempts; ++attempt) {
+            const data = generate(schema, { random, root: schema, ids: {}, depth: 0 });
+            if (validator.isValid(data)) return data;
+        }
+
+        throw new Error(`Could not generate data matching the schema after ${maxAttempts} attempts`);
+    };
+
+    const shrink = (value: J) => shrinkValue(value).filter(candidate => validator.isValid(candidate)) as J[];
+
+    return {
+        generate: generateValue,
+        shrink,
+        check: (property, options = {}) => {
+            const seed = options.seed === undefined ? randomSeed() : options.seed;
+            const seeds = createRandom(seed);
+
+            for (let run = 0; run < (options.runs || 100); ++run) {
+                const runSeed = Math.floor(seeds.next() * 4294967296);
+                let value = generateValue(runSeed);
+                if (!fails(property, value)) continue;
+
+                // keep replacing the value by its first smaller variation that still fails, until none do
+                let smaller = shrink(value).find(candidate => fails(property, candidate));
+                while (smaller !== undefined) {
+                    value = smaller;
+                    smaller = shrink(value).find(candidate => fails(property, candidate));
+                }
+
+                throw new Error(`Property failed after ${run + 1} run(s) (seed ${runSeed}) with: ${JSON.stringify(value)}`);
+            }
+        },
+    };
+}
+
+/**
+ * Generates random data that matches the schema of the given validator, for instance to create test fixtures.
+ * The same `seed` always generates the same data for the same validator.
+ *
+ * @param validator The validator whose schema the data should match.
+ * @param options [optional] The `seed` to generate the data with. A random seed is used when not given.
+ *
+ * @example
+ * ```typescript
+ * import * as v from 'validtyped';
+ *
+ * const user = v.object({ name: v.string(), email: v.email() });
+ *
+ * const fixture = v.sample(user, { seed: 42 }); // { name: 'C1QlHr', email: 'wmgwth@nrpa.com' }
+ * ```
+ */
+export function sample<T, J>(validator: Validator<T, J>, options: SampleOptions = {}): J {
+    return arbitrary(validator).generate(options.seed === undefined ? randomSeed() : options.seed);
+}
@@ -0,0 +1,207 @@
+import { getAnnotations } from './annotations';
+import { getTypeName, renderDeclarations } from './codegen';
+import { renderBuiltinFormat } from './formats';
+import { ContextOptions, ValidationContext, Validator } from './index';
+import { containsSchema, usesDefaults } from './transform';
+
+/**
+ * The source of a standalone javascript module created by `toStandaloneModule`,
+ * along with the contents of its typescript declaration file (`.d.ts`).
+ */
+export interface StandaloneModule {
+    code: string;
+    declarations: string;
+}
+
+/**
+ * no-doc - Tracks the compiled validation functions that have been written while rendering a standalone module.
+ * Every function is written under a stable name, so that functions that refer to each other (recursive types) can be written in any order.
+ * Functions are told apart by their source, because Ajv refers to a schema that is still being compiled (such as a recursive type)
+ * through a wrapper function, which shares the source of the function that it calls.
+ */
+interface StandaloneContext {
+    names: Map<object, string>;
+    functions: string[];
+}
+
+/**
+ * no-doc - Collects the names of the string formats used anywhere within a schema.
+ */
+const collectFormats = (schema: unknown, formats: Set<string>): Set<string> => {
+    if (typeof schema !== 'object' || schema === null) return formats;
+    if (typeof (schema as any).format === 'string') formats.add((schema as any).format);
+
+    Object.keys(schema).forEach(key => collectFormats((schema as any)[key], formats));
+    return formats;
+};
+
+/**
+ * no-doc - Renders a string format as javascript, or returns `undefined` if it is checked by a function that only exists at runtime.
+ * Formats given in the options are written as regular expression literals, and Ajv's own formats are written out from `formats.ts`.
+ */
+const renderFormat = (name: string, options: ContextOptions): string | undefined => {
+    const custom = (options.formats || {}) as Record<string, unknown>;
+    if (!Object.prototype.hasOwnProperty.call(custom, name)) return renderBuiltinFormat(name, options.format === 'full' ? 'full' : 'fast');
+
+    // Ajv reads formats given as strings as regular expressions
+    const format = custom[name];
+    if (typeof format === 'string') return new RegExp(format).toString();
+    return format instanceof RegExp ? format.toString() : undefined;
+};
+
+/**
+ * no-doc - Renders the string formats used by the compiled schemas.
+ */
+const renderFormats = (options: ContextOptions, used: Set<string>) => {
+    if (options.format === false) return `var formats = {};`;
+
+    const formats = Array.from(used).map(name => {
+        const format = renderFormat(name, options);
+        if (format === undefined) throw new Error(`Cannot precompile the '${name}' format, because it is checked by a function that only exists at runtime`);
+        return `formats[${JSON.stringify(name)}] = ${format};`;
+    });
+
+    return [`var formats = {};`, ...formats].join('\n');
+};
+
+/**
+ * no-doc - Ajv's own helpers that compiled validation functions refer to, written out so that the module does not require Ajv.
+ * `equal` compares JSON values (for `enum`, `const` and `uniqueItems`), and `ucs2length` counts the characters of a string
+ * the way that `minLength` and `maxLength` do, where a surrogate pair is one character.
+ * `copyData` copies the data that default values are filled into, in the same way as `Validator.validate`.
+ */
+const helpers = `function equal(a, b) {
+    if (a === b) return true;
+    if (!a || !b || typeof a !== 'object' || typeof b !== 'object') return a !== a && b !== b;
+    if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+    var keys = Object.keys(a);
+    if (keys.length !== Object.keys(b).length) return false;
+    for (var i = 0; i < keys.length; i++) {
+        if (!Object.prototype.hasOwnProperty.call(b, keys[i]) || !equal(a[keys[i]], b[keys[i]])) return false;
+    }
+    return true;
+}
+
+function ucs2length(str) {
+    var length = 0;
+    for (var i = 0; i < str.length; i++) {
+        var code = str.charCodeAt(i);
+        var next = str.charCodeAt(i + 1);
+        if (code >= 0xD800 && code <= 0xDBFF && next >= 0xDC00 && next <= 0xDFFF) i++;
+        length++;
+    }
+    return length;
+}
+
+var customRules = [];
+
+function copyData(data) {
+    if (Array.isArray(data)) return data.map(copyData);
+    if (Object.prototype.toString.call(data) !== '[object Object]') return data;
+
+    var copy = {};
+    Object.keys(data).forEach(function (key) { copy[key] = copyData(data[key]); });
+    return copy;
+}`;
+
+/**
+ * no-doc - Writes a compiled validation function (and every function that it refers to), returning the name it is written under.
+ * Each function is wrapped in the same closure that Ajv creates with `new Function`, so that the generated code can run unchanged.
+ */
+const renderFunction = (validate: any, ctx: StandaloneContext): string => {
+    if (!validate.source) throw new Error('Cannot precompile a reference to a schema that has not been compiled');
+
+    const existing = ctx.names.get(validate.source);
+    if (existing) return existing;
+
+    const name = `validate${ctx.names.size}`;
+    ctx.names.set(validate.source, name);
+
+    // reserve a position so that the functions are written in the order they were found
+    const position = ctx.functions.push('') - 1;
+
+    // a function compiled for part of a schema refers to the function of the whole schema through the `root` that Ajv gives it
+    const root = validate.root === validate ? name : renderFunction(validate.root.refVal[0], ctx);
+    const refs = (validate.refVal as unknown[]).map((ref, i) => {
+        if (i === 0) return name;
+        if (typeof ref === 'function') return renderFunction(ref, ctx);
+        return ref === undefined ? 'undefined' : JSON.stringify(ref);
+    });
+
+    ctx.functions[position] = [
+        `function ${name}(data, dataPath, parentData, parentDataProperty, rootData) {`,
+        `    var valid = ${name}.compiled(data, dataPath, parentData, parentDataProperty, rootData);`,
+        `    ${name}.errors = ${name}.compiled.errors;`,
+        `    return valid;`,
+        `}`,
+        `${name}.compiled = (function (root, refVal, defaults) {`,
+        validate.source.code,
+        `})({ refVal: [${root}] }, [${refs.join(', ')}], ${JSON.stringify(validate.source.defaults)});`,
+        `${name}.compiled.schema = ${JSON.stringify(validate.schema)};`,
+    ].join('\n');
+
+    return name;
+};
+
+/**
+ * no-doc - Compiles each validator and renders the compiled validation functions as a standalone module,
+ * exporting an `is<Type>` type guard and a `validate<Type>` function for each validator.
+ * @param validators the validators to compile, by the name of their type
+ * @param context the context whose options the validators are compiled with
+ */
+export const renderStandaloneModule = (validators: Record<string, Validator<any, any>>, context: ValidationContext): StandaloneModule => {
+    const ctx: StandaloneContext = { names: new Map(), functions: [] };
+    const ajv = context.createAjv({ sourceCode: true });
+    const defaultsAjv = context.createAjv({ sourceCode: true, useDefaults: true });
+
+    const exports = Object.keys(validators).map(key => {
+        const schema = validators[key].getSchema();
+        const name = getTypeName(key, schema);
+
+        if (containsSchema(schema, sub => getAnnotations(sub).refine.length > 0 || getAnnotations(sub).refineAsync.length > 0)) {
+            throw new Error(`Cannot precompile ${name}, because refinements are functions that only exist at runtime`);
+        }
+
+        const fn = renderFunction(ajv.compile(schema), ctx);
+        // the type guard never fills in default values, while the validation function fills them into a copy of the data
+        const defaults = usesDefaults(schema);
+        const validate = defaults ? renderFunction(defaultsAjv.compile(schema), ctx) : fn;
+
+        return {
+            code: [
+                `exports.is${name} = function (data) { return ${fn}(data); };`,
+                `exports.validate${name} = function (data) {`,
+                ...(defaults ? [`    data = copyData(data);`] : []),
+                `    return ${validate}(data) ? { valid: true, data: data } : { valid: false, errors: ${validate}.errors };`,
+                `};`,
+            ].join('\n'),
+            declarations: [
+                `export declare function is${name}(data: unknown): data is ${name};`,
+                `export declare function validate${name}(data: unknown): { valid: true, data: ${name} } | { valid: false, errors: ErrorObject[] };`,
+            ].join('\n'),
+        };
+    });
+
+    const formats = Object.keys(validators).reduce((used, key) => collectFormats(validators[key].getSchema(), used), new Set<string>());
+
+    const code = [
+        `'use strict';`,
+        helpers,
+        renderFormats(context.options, formats),
+        ...ctx.functions,
+        ...exports.map(e => e.code),
+    ];
+
+    const types = renderDeclarations(validators);
+    const declarations = [
+        [`import { ErrorObject } from 'ajv';`, ...types.imports].join('\n'),
+        ...types.declarations,
+        ...exports.map(e => e.declarations),
+    ];
+
+    return {
+        code: code.join('\n\n') + '\n',
+        declarations: declarations.join('\n\n') + '\n',
+    };
+};
@@ -0,0 +1,201 @@
+import { getAnnotations } from './annotations';
+
+/**
+ * no-doc - Checks whether the data matches the sub-schema found at the given JSON pointer of the validated schema.
+ * Used to find out which branch of a union (or of an `if` condition) the data took.
+ */
+export type SchemaMatcher = (pointer: string, data: unknown) => boolean;
+
+/**
+ * no-doc - A pair of functions converting between a type and the JSON compatible form that it is validated in.
+ */
+export interface Codec<T, J> {
+    decode: (json: J) => T;
+    encode: (value: T) => J;
+}
+
+/**
+ * no-doc - Describes how data is transformed while walking it alongside its schema.
+ * When decoding, unknown keys are stripped and codecs decode from the validated data.
+ * When encoding, codecs encode back to data that matches the schema.
+ */
+export interface TransformOptions {
+    direction: 'decode' | 'encode';
+    matches: SchemaMatcher;
+}
+
+/**
+ * no-doc - Keeps the root of the schema being walked, so that `$ref`s (such as those of `recursive` validators) can be followed.
+ */
+interface TransformContext extends TransformOptions {
+    root: object;
+}
+
+// instances of classes (such as decoded dates) are left as they are rather than copied key by key
+const isPlainObject = (data: unknown): data is Record<string, unknown> =>
+    typeof data === 'object' && data !== null && [Object.prototype, null].includes(Object.getPrototypeOf(data));
+
+const escapePointerSegment = (segment: string | number) => encodeURIComponent(String(segment).replace(/~/g, '~0').replace(/\//g, '~1'));
+
+const childPointer = (pointer: string, ...segments: Array<string | number>) =>
+    pointer + segments.map(segment => `/${escapePointerSegment(segment)}`).join('');
+
+const pointerSegments = (pointer: string) => pointer.split('/').slice(1).map(segment => decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~'));
+
+/**
+ * no-doc - Finds the sub-schema of a schema at the given JSON pointer (such as `/anyOf/0`), or `undefined` if there is none.
+ */
+export const resolvePointer = (schema: unknown, pointer: string): any =>
+    pointerSegments(pointer).reduce((sub: any, segment) => typeof sub === 'object' && sub !== null ? sub[segment] : undefined, schema);
+
+/**
+ * no-doc - Finds the sub-schema of the root schema that a `$ref` refers to, along with its JSON pointer.
+ * Only references within the same schema (such as `#/definitions/Node`) can be followed.
+ */
+const resolveRef = (ref: string, ctx: TransformContext) => {
+    if (!ref.startsWith('#')) return undefined;
+
+    const schema = resolvePointer(ctx.root, ref.slice(1));
+    return schema === undefined ? undefined : { schema, pointer: childPointer('', ...pointerSegments(ref.slice(1))) };
+};
+
+/**
+ * no-doc - Checks whether a schema, or any of its sub-schemas, satisfies the given predicate.
+ */
+export const containsSchema = (schema: unknown, predicate: (schema: any) => boolean): boolean => {
+    if (typeof schema !== 'object' || schema === null) return false;
+    if (predicate(schema)) return true;
+
+    const values = Object.keys(schema).map(key => (schema as any)[key]);
+    return values.some(value => containsSchema(value, predicate));
+};
+
+/**
+ * no-doc - Checks whether validated data needs to be transformed for the given schema,
+ * because it strips unknown keys from objects or uses codecs.
+ * @param schema any JSON schema
+ */
+export const transformsData = (schema: unknown) => containsSchema(schema, sub => sub.stripUnknown === true || getAnnotations(sub).codec !== undefined);
+
+/**
+ * no-doc - Checks whether values need to be encoded for the given schema, because it uses codecs.
+ * @param schema any JSON schema
+ */
+export const usesCodecs = (schema: unknown) => containsSchema(schema, sub => getAnnotations(sub).codec !== undefined);
+
+/**
+ * no-doc - Checks whether validation fills in missing values for the given schema, because it has default values.
+ * @param schema any JSON schema
+ */
+export const usesDefaults = (schema: unknown) => containsSchema(schema, sub => 'default' in sub);
+
+/**
+ * no-doc - Deeply copies the arrays and plain objects of data, so that default values can be filled into the copy.
+ */
+export const copyData = (data: unknown): unknown => {
+    if (Array.isArray(data)) return data.map(copyData);
+    if (!isPlainObject(data)) return data;
+
+    return Object.keys(data).reduce((copy, key) => {
+        copy[key] = copyData(data[key]);
+        return copy;
+    }, {} as Record<string, unknown>);
+};
+
+const transformObject = (schema: any, pointer: string, data: Record<string, unknown>, ctx: TransformContext) => {
+    const properties: Record<string, any> = schema.properties || {};
+    const additional = schema.additionalProperties;
+    const strip = ctx.direction === 'decode' && schema.stripUnknown === true;
+
+    return Object.keys(data)
+        .filter(key => !strip || key in properties)
+        .reduce((copy, key) => {
+            if (key in properties) copy[key] = transform(properties[key], childPointer(pointer, 'properties', key), data[key], ctx);
+            else if (typeof additional === 'object') copy[key] = transform(additional, childPointer(pointer, 'additionalProperties'), data[key], ctx);
+            else copy[key] = data[key];
+            return copy;
+        }, {} as Record<string, unknown>);
+};
+
+const transformArray = (schema: any, pointer: string, data: unknown[], ctx: TransformContext) => data.map((item, i) => {
+    if (Array.isArray(schema.items)) {
+        if (i < schema.items.length) return transform(schema.items[i], childPointer(pointer, 'items', i), item, ctx);
+        if (typeof schema.additionalItems === 'object') return transform(schema.additionalItems, childPointer(pointer, 'additionalItems'), item, ctx);
+        return item;
+    }
+
+    if (typeof schema.items === 'object') return transform(schema.items, childPointer(pointer, 'items'), item, ctx);
+    return item;
+});
+
+/**
+ * no-doc - Finds the branch of a union that the data took, along with the transformed data for that branch.
+ * When encoding, the data does not have the form that the schema describes until it has been encoded,
+ * so each branch is encoded before checking whether it matches.
+ */
+const transformUnion = (branches: any[], pointer: string, data: unknown, ctx: TransformContext) => {
+    for (let i = 0; i < branches.length; ++i) {
+        const branchPointer = childPointer(pointer, i);
+
+        if (ctx.direction === 'decode') {
+            if (ctx.matches(branchPointer, data)) return { matched: true, data: transform(branches[i], branchPointer, data, ctx) };
+            continue;
+        }
+
+        try {
+            const encoded = transform(branches[i], branchPointer, data, ctx);
+            if (ctx.matches(branchPointer, encoded)) return { matched: true, data: encoded };
+        } catch (e) {
+            // the codecs of a branch that the value does not belong to may not be able to encode it
+        }
+    }
+
+    return { matched: false, data };
+};
+
+/**
+ * no-doc - Walks data alongside its schema, copying every object and array on the way and transforming the data as described by the options.
+ * Codecs decode after the data within them has been decoded, and encode before the data within them is encoded.
+ */
+const transform = (schema: any, pointer: string, data: unknown, ctx: TransformContext): unknown => {
+    if (typeof schema !== 'object' || schema === null) return data;
+
+    const { codec } = getAnnotations(schema);
+
+    let result = codec && ctx.direction === 'encode' ? codec.encode(data) : data;
+    const original = result;
+    if (isPlainObject(result)) result = transformObject(schema, pointer, result, ctx);
+    if (Array.isArray(result)) result = transformArray(schema, pointer, result, ctx);
+
+    const target = typeof schema.$ref === 'string' ? resolveRef(schema.$ref, ctx) : undefined;
+    if (target) result = transform(target.schema, target.pointer, result, ctx);
+
+    if (Array.isArray(schema.allOf)) {
+        result = schema.allOf.reduce((r: unknown, sub: any, i: number) => transform(sub, childPointer(pointer, 'allOf', i), r, ctx), result);
+    }
+
+    // only the branch that the data actually matched decides how the data is transformed
+    ['oneOf', 'anyOf'].filter(key => Array.isArray(schema[key])).forEach(key => {
+        const branch = transformUnion(schema[key], childPointer(pointer, key), original, ctx);
+        if (branch.matched) result = branch.data;
+    });
+
+    if (schema.if !== undefined) {
+        const key = ctx.matches(childPointer(pointer, 'if'), original) ? 'then' : 'else';
+        result = transform(schema[key], childPointer(pointer, key), result, ctx);
+    }
+
+    return codec && ctx.direction === 'decode' ? codec.decode(result) : result;
+};
+
+/**
+ * no-doc - Transforms data that is valid for the schema (when decoding) or a value of the decoded type (when encoding).
+ * When decoding, the result is a copy of the data without the unknown keys of objects whose schema has the `stripUnknown` keyword,
+ * and with every value whose schema has a codec decoded by that codec.
+ * When encoding, every value whose schema has a codec is encoded by that codec.
+ * @param schema the schema that the data has been validated against
+ * @param data the data to transform
+ * @param options how to transform the data
+ */
+export const transformData = (schema: object, data: unknown, options: TransformOptions) =>
+    transform(schema, '', data, { ...options, root: schema });
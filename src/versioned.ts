@@ -0,0 +1,207 @@
+import * as Ajv from 'ajv';
+import { formatErrors, ValidationError } from './errors';
+import { InvalidResult, ValidResult, Validator } from './index';
+
+/**
+ * no-doc - The version that follows each version number, which limits versioned schemas to 20 versions.
+ */
+interface NextVersions {
+    0: 1; 1: 2; 2: 3; 3: 4; 4: 5; 5: 6; 6: 7; 7: 8; 8: 9; 9: 10;
+    10: 11; 11: 12; 12: 13; 13: 14; 14: 15; 15: 16; 16: 17; 17: 18; 18: 19; 19: 20;
+}
+
+/**
+ * The validators for each version of a schema, keyed by consecutive version numbers.
+ */
+export type Versions = Record<number, Validator<any, any>>;
+
+/**
+ * Gets the highest version number of a set of versions.
+ */
+export type LatestVersion<V extends Versions> = {
+    [K in keyof V]: K extends keyof NextVersions ? NextVersions[K] extends keyof V ? never : K : K;
+}[keyof V];
+
+/**
+ * The functions that upgrade data from each version to the next, for every version but the latest.
+ * Each migration receives the data of its version as validated by its validator (with unknown keys stripped, defaults filled in and codecs decoded),
+ * and returns data that matches the next version.
+ */
+export type Migrations<V extends Versions> = {
+    [K in Exclude<keyof V, LatestVersion<V>>]: (data: V[K] extends Validator<infer T, any> ? T : never) =>
+        K extends keyof NextVersions ? V[NextVersions[K]] extends Validator<any, infer J> ? J : never : never;
+};
+
+/**
+ * Options for `versioned`.
+ * `key` is the name of the key that holds the version of the data. When it is not given, or the data does not have the key,
+ * the version is detected by trying each version from the latest to the oldest.
+ */
+export interface VersionedOptions<V extends Versions> {
+    key?: string;
+    migrate: Migrations<V>;
+}
+
+/**
+ * Specifies the shape of a successful validation using the `validate` method of a `VersionedValidator`.
+ * `version` is the version that the data was in, before being migrated to the latest version.
+ */
+export interface MigratedResult<T> extends ValidResult<T> {
+    version: number;
+}
+
+/**
+ * Validates data that may be in any version of a schema, and migrates it step by step to the latest version.
+ * Created with `versioned`.
+ */
+export class VersionedValidator<T, V extends Versions = Versions> {
+    /**
+     * The latest version number, which all valid data is migrated to.
+     */
+    readonly latestVersion: number;
+    private readonly versionNumbers: number[];
+
+    constructor(private readonly versions: V, private readonly options: VersionedOptions<V>) {
+        this.versionNumbers = Object.keys(versions).map(Number).sort((a, b) => a - b);
+        this.latestVersion = this.versionNumbers[this.versionNumbers.length - 1];
+
+        if (this.versionNumbers.length === 0) throw new Error('Must give at least one version');
+        this.versionNumbers.forEach((version, i) => {
+            if (i > 0 && version !== this.versionNumbers[i - 1] + 1) throw new Error(`Versions must be consecutive numbers, but version ${this.versionNumbers[i - 1] + 1} is missing`);
+            if (version !== this.latestVersion && typeof this.migration(version) !== 'function') throw new Error(`Missing the migration from version ${version} to ${version + 1}`);
+        });
+    }
+
+    /**
+     * Detects the version of the given data, or `undefined` if it does not match any version.
+     * The version is read from the `key` option when the data has that key, and otherwise found by trying each version from the latest to the oldest.
+     * @param data Any data of unknown type.
+     *
+     * @example
+     * ```typescript
+     * import * as v from 'validtyped';
+     *
+     * const user = v.versioned({ 1: userV1, 2: userV2 }, { migrate: { 1: u => ({ ...u, email: null }) } });
+     *
+     * user.detectVersion({ name: 'Andy' }); // 1
+     * ```
+     */
+    detectVersion(data: unknown): number | undefined {
+        const declared = this.declaredVersion(data);
+        if (declared !== undefined) return this.versions[declared] && this.versions[declared].isValid(data) ? declared : undefined;
+
+        return [...this.versionNumbers].reverse().find(version => this.versions[version].isValid(data));
+    }
+
+    /**
+     * Takes data of unknown type that may be in any version, and returns a discriminated union with either the data migrated to the latest version,
+     * or an error object describing what part of the data did not match.
+     * When the version cannot be detected, the errors describe how the data does not match the latest version.
+     * Throws if a migration returns data that does not match the next version, because that is a mistake in the migration rather than the data.
+     * @param data Any data of unknown type which will be validated.
+     *
+     * @example
+     * ```typescript
+     * import * as v from 'validtyped';
+     *
+     * const user = v.versioned({ 1: userV1, 2: userV2 }, { migrate: { 1: u => ({ ...u, email: null }) } });
+     *
+     * const result = user.validate(storedDocument);
+     * if (result.valid) doThing(result.data); // typeof result.data => `UserV2`
+     * else logger.error(...result.errors);
+     * ```
+     */
+    validate(data: unknown): MigratedResult<T> | InvalidResult {
+        const declared = this.declaredVersion(data);
+        if (declared !== undefined && !this.versions[declared]) return this.unknownVersion(declared, data);
+
+        const version = this.detectVersion(data);
+        if (version === undefined) return this.versions[declared === undefined ? this.latestVersion : declared].validate(data) as InvalidResult;
+
+        // each migration receives the data as validated by its own version, so that stripping, defaults and codecs apply at every step
+        let current = this.versions[version].validate(data);
+        for (let from = version; current.valid && from < this.latestVersion; ++from) {
+            const next = this.versions[from + 1].validate(this.migration(from)(current.data));
+            if (!next.valid) throw new Error(`The migration from version ${from} to ${from + 1} returned invalid data:\n${formatErrors(next)}`);
+            current = next;
+        }
+
+        return current.valid ? { data: current.data, valid: true, version } : current;
+    }
+
+    /**
+     * Takes data of unknown type that may be in any version, and returns it migrated to the latest version,
+     * or throws a `ValidationError` if it does not match any version.
+     * @param data Any data of unknown type which will be validated.
+     *
+     * @example
+     * ```typescript
+     * import * as v from 'validtyped';
+     *
+     * const user = v.versioned({ 1: userV1, 2: userV2 }, { migrate: { 1: u => ({ ...u, email: null }) } });
+     *
+     * const latest = user.parse(JSON.parse(message)); // typeof latest => `UserV2`
+     * ```
+     */
+    parse(data: unknown): T {
+        const result = this.validate(data);
+        if (result.valid) return result.data;
+
+        throw new ValidationError(result.errors, data, this.versions[this.latestVersion].getSchema().title);
+    }
+
+    // the migrations are typed by version, but are looked up by the version numbers found at runtime
+    private migration(from: number): (data: unknown) => unknown {
+        const migrations = this.options.migrate as Partial<Record<number, (data: any) => unknown>>;
+        return migrations[from]!;
+    }
+
+    private declaredVersion(data: unknown): number | undefined {
+        const key = this.options.key;
+        if (key === undefined || typeof data !== 'object' || data === null || !(key in data)) return;
+
+        return Number((data as any)[key]);
+    }
+
+    private unknownVersion(version: number, data: unknown): InvalidResult {
+        const key = this.options.key!;
+        const error: Ajv.ErrorObject = {
+            keyword: 'enum',
+            dataPath: /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(key) ? `.${key}` : `['${key}']`,
+            schemaPath: '#/version',
+            params: { allowedValues: this.versionNumbers },
+            message: `unknown version ${version}`,
+            data: (data as any)[key],
+        };
+
+        return { errors: [ error ], valid: false };
+    }
+}
+
+/**
+ * Creates a `VersionedValidator` for data that may be in any of several versions of a schema, such as stored documents or queued messages.
+ * Valid data is migrated step by step from its own version to the latest version, and each step is checked against the next version's validator.
+ *
+ * @param versions The validators for each version, keyed by consecutive version numbers.
+ * @param options The `migrate` function from each version to the next, and optionally the `key` that holds the version of the data.
+ *
+ * @example
+ * ```typescript
+ * import * as v from 'validtyped';
+ *
+ * const userV1 = v.object({ name: v.string() });
+ * const userV2 = v.object({ version: v.number([2]), first: v.string(), last: v.string() });
+ *
+ * const user = v.versioned({ 1: userV1, 2: userV2 }, {
+ *   key: 'version',
+ *   migrate: {
+ *     1: u => ({ version: 2, first: u.name.split(' ')[0], last: u.name.split(' ').slice(1).join(' ') }),
+ *   },
+ * });
+ *
+ * user.parse({ name: 'Andy Patterson' }); // { version: 2, first: 'Andy', last: 'Patterson' }
+ * ```
+ */
+export function versioned<V extends Versions>(versions: V, options: VersionedOptions<V>): VersionedValidator<V[LatestVersion<V>] extends Validator<infer T, any> ? T : never, V> {
+    return new VersionedValidator(versions, options);
+}
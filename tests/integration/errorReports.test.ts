@@ -0,0 +1,75 @@
+import * as v from 'index';
+import { fail } from '../helpers/assert';
+
+const user = v.object({
+    name: v.string(),
+    address: v.object({
+        zip: v.string(),
+        lines: v.array(v.string()),
+    }),
+});
+
+const validator = v.object({ user });
+
+test('Reports the path of the failing data with a readable message', () => {
+    const result = validator.validate({ user: { name: 'a', address: { zip: 22, lines: [] } } });
+    if (result.valid) return fail();
+
+    expect(v.errorReports(result)).toEqual([
+        { path: 'user.address.zip', message: 'expected string, got number', keyword: 'type' },
+    ]);
+    expect(v.formatErrors(result)).toBe('user.address.zip: expected string, got number');
+});
+
+test('Reports array indices and missing keys', () => {
+    const lines = validator.validate({ user: { name: 'a', address: { zip: '1', lines: ['a', null] } } });
+    const missing = validator.validate({ user: { address: { zip: '1', lines: [] } } });
+    if (lines.valid || missing.valid) return fail();
+
+    expect(v.formatErrors(lines)).toBe('user.address.lines[1]: expected string, got null');
+    expect(v.formatErrors(missing)).toBe(`user: missing required key 'name'`);
+});
+
+test('Picks the most relevant branch of a union', () => {
+    const shape = v.union([
+        v.number(),
+        v.object({ kind: v.string(['circle']), radius: v.number() }),
+        v.object({ kind: v.string(['square']), size: v.number() }),
+    ]);
+
+    const result = v.array(shape).validate([1, { kind: 'circle', radius: '2' }]);
+    if (result.valid) return fail();
+
+    expect(result.errors.length).toBeGreaterThan(1);
+    expect(v.errorReports(result)).toEqual([
+        { path: '[1].radius', message: 'expected number, got string', keyword: 'type' },
+    ]);
+});
+
+test('Reports a union that does not match at all', () => {
+    const result = v.union([v.string(), v.number()]).validate(true);
+    if (result.valid) return fail();
+
+    expect(v.formatErrors(result)).toBe('expected string | number, got boolean');
+});
+
+test('Reports enum values', () => {
+    const result = v.object({ color: v.string(['red', 'blue']) }).validate({ color: 'green' });
+    if (result.valid) return fail();
+
+    expect(v.formatErrors(result)).toBe(`color: unknown value 'green', expected one of 'red', 'blue'`);
+});
+
+test('Can render the errors as a JSON tree', () => {
+    const result = validator.validate({ user: { name: 'a', address: { zip: 22, lines: [] } } });
+    if (result.valid) return fail();
+
+    const tree = v.errorTree(result);
+    expect(tree.errors).toEqual([]);
+    expect(tree.children.user.children.address.children.zip).toEqual({
+        path: 'user.address.zip',
+        errors: [{ path: 'user.address.zip', message: 'expected string, got number', keyword: 'type' }],
+        children: {},
+    });
+    expect(JSON.parse(v.formatErrors(result, 'json'))).toEqual(tree);
+});
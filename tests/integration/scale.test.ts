@@ -24,3 +24,75 @@ test('Ajv compiles only one instance of schema', () => {
 
     expect(took).toBeLessThan(8000);
 });
+
+const createUserValidator = () => v.object({
+    id: v.string(),
+    name: v.string(),
+    age: v.number(),
+    tags: v.array(v.string()),
+    address: v.object({
+        street: v.string(),
+        zip: v.string(),
+        country: v.string([ 'CA', 'US' ]),
+    }),
+});
+
+const user = {
+    id: 'a',
+    name: 'b',
+    age: 22,
+    tags: [ 'c' ],
+    address: { street: 'd', zip: 'e', country: 'CA' },
+};
+
+const createTreeValidator = () => v.recursive<any>('Tree', tree => v.object({
+    label: v.string(),
+    children: v.array(tree),
+}));
+
+const tree = { label: 'a', children: [{ label: 'b', children: [] }] };
+
+/**
+ * Creates many validators with identical schemas, as a service with a large number of routes would,
+ * and validates data once with each of them, counting how many Ajv instances are created
+ * and how many distinct validation functions are compiled to do so.
+ */
+const measureStartup = (count: number, bind: (validator: v.Validator<any>) => v.Validator<any>, create = createUserValidator, data: unknown = user) => {
+    const createAjv = jest.spyOn(v.ValidationContext.prototype, 'createAjv');
+    const compile = jest.spyOn(v.ValidationContext.prototype, 'compile');
+
+    for (let i = 0; i < count; ++i) {
+        const validator = bind(create());
+        if (!validator.isValid(data)) fail();
+    }
+
+    const instances = createAjv.mock.calls.length;
+    const functions = new Set(compile.mock.results.map(result => result.value)).size;
+    createAjv.mockRestore();
+    compile.mockRestore();
+
+    return { instances, functions };
+};
+
+test('Validators share compiled schemas through their context', () => {
+    const context = v.createContext();
+
+    const shared = measureStartup(200, validator => validator.withContext(context));
+    const isolated = measureStartup(200, validator => validator.withContext(v.createContext()));
+
+    expect(shared).toEqual({ instances: 1, functions: 1 });
+    expect(isolated).toEqual({ instances: 200, functions: 200 });
+});
+
+test('Recursive validators share compiled schemas through their context', () => {
+    const context = v.createContext();
+
+    const shared = measureStartup(200, validator => validator.withContext(context), createTreeValidator, tree);
+    expect(shared).toEqual({ instances: 1, functions: 1 });
+});
+
+test('Validators use the default context unless bound to another context', () => {
+    const defaults = measureStartup(200, validator => validator);
+    expect(defaults.instances).toBeLessThanOrEqual(1);
+    expect(defaults.functions).toBe(1);
+});
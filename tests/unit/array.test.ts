@@ -53,3 +53,12 @@ test('Can validate empty array', () => {
         fail();
     }
 });
+
+test('Every element of the array is checked', () => {
+    const x: any = [1, 'x', {}];
+
+    const validator = v.array(v.number());
+
+    if (validator.isValid(x)) fail();
+    else pass();
+});
@@ -0,0 +1,105 @@
+import * as v from 'index';
+import { fail, assertTypesEqual } from '../helpers/assert';
+
+const at = '2018-11-13T20:20:39.000Z';
+
+test('Can decode and encode dates', () => {
+    const validator = v.isoDate();
+
+    const date = validator.parse(at);
+    assertTypesEqual<typeof date, Date>();
+    expect(date).toEqual(new Date(at));
+
+    const json = validator.encode(date);
+    assertTypesEqual<typeof json, string>();
+    expect(json).toBe(at);
+
+    expect(validator.isValid('yesterday')).toBe(false);
+    expect(validator.isValid(new Date(at))).toBe(false);
+});
+
+test('Can decode and encode bigints', () => {
+    const validator = v.bigint();
+
+    expect(validator.parse('9007199254740993')).toBe(BigInt('9007199254740993'));
+    expect(validator.parse('-12')).toBe(BigInt(-12));
+    expect(validator.encode(BigInt('9007199254740993'))).toBe('9007199254740993');
+
+    expect(validator.isValid('1.5')).toBe(false);
+    expect(validator.isValid(12)).toBe(false);
+});
+
+test('Can create a codec for any type', () => {
+    const point = v.codec(v.tuple([ v.number(), v.number() ]), {
+        decode: ([x, y]) => ({ x, y }),
+        encode: ({ x, y }: { x: number, y: number }) => [x, y] as [number, number],
+    });
+
+    const decoded = point.parse([1, 2]);
+    assertTypesEqual<typeof decoded, { x: number, y: number }>();
+    expect(decoded).toEqual({ x: 1, y: 2 });
+    expect(point.encode({ x: 3, y: 4 })).toEqual([3, 4]);
+});
+
+test('Decodes and encodes codecs nested in objects and arrays', () => {
+    const event = v.object({
+        name: v.string(),
+        at: v.isoDate(),
+        reminders: v.array(v.isoDate()),
+    }, { optional: ['reminders'] });
+
+    const json = { name: 'launch', at, reminders: [at] };
+    const decoded = event.parse(json);
+
+    type expected = { name: string, at: Date, reminders?: Date[] };
+    assertTypesEqual<typeof decoded, expected>();
+    expect(decoded).toEqual({ name: 'launch', at: new Date(at), reminders: [new Date(at)] });
+
+    expect(event.encode(decoded)).toEqual(json);
+    expect(event.encode({ name: 'launch', at: new Date(at) })).toEqual({ name: 'launch', at });
+});
+
+test('Only decodes the branch of a union that the data matched', () => {
+    const validator = v.union([ v.isoDate(), v.number() ]);
+
+    expect(validator.parse(at)).toEqual(new Date(at));
+    expect(validator.parse(22)).toBe(22);
+    expect(validator.encode(new Date(at))).toBe(at);
+    expect(validator.encode(22)).toBe(22);
+});
+
+test('Does not change the data passed to it', () => {
+    const event = v.object({ at: v.isoDate() });
+    const json = { at };
+
+    event.parse(json);
+    expect(json).toEqual({ at });
+});
+
+test('Type guards narrow to the JSON form', () => {
+    const event = v.object({ at: v.isoDate() });
+    const x: any = { at };
+
+    if (!event.isValid(x)) return fail();
+    assertTypesEqual<typeof x, { at: string }>();
+
+    type Event = v.ValidType<typeof event>;
+    type EventJson = v.WireType<typeof event>;
+    assertTypesEqual<Event, { at: Date }>();
+    assertTypesEqual<EventJson, { at: string }>();
+});
+
+test('Describes the JSON form in the schema', () => {
+    expect(v.isoDate().getSchema()).toEqual({ type: 'string', format: 'date-time' });
+});
+
+test('Can create a codec of a codec', () => {
+    const days = v.codec<number, Date, string>(v.isoDate(), {
+        decode: date => Math.floor(date.getTime() / 864e5),
+        encode: day => new Date(day * 864e5),
+    });
+
+    expect(days.parse(at)).toBe(17848);
+    expect(days.encode(17848)).toBe('2018-11-13T00:00:00.000Z');
+    expect(days.getSchema()).toEqual({ allOf: [ { type: 'string', format: 'date-time' } ] });
+});
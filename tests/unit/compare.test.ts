@@ -0,0 +1,132 @@
+import * as v from 'index';
+
+test('Reports no changes for the same schema', () => {
+    const user = () => v.object({ id: v.string(), tags: v.array(v.string()) }).setSchemaMetaData({ title: 'User' });
+
+    expect(v.compare(user(), user())).toEqual({ compatibility: 'full', changes: [] });
+    expect(v.compare(user(), user().setSchemaMetaData({ description: 'Only metadata changed' })).compatibility).toBe('full');
+});
+
+test('Classifies changes to objects', () => {
+    const v1 = v.object({ id: v.string(), role: v.string(['admin', 'user', 'guest']) });
+    const v2 = v.object({ id: v.string(), role: v.string(['admin', 'user']), email: v.email() });
+
+    expect(v.compare(v1, v2)).toEqual({
+        compatibility: 'forward',
+        changes: [
+            { path: 'role', compatibility: 'forward', message: `no longer accepts 'guest'` },
+            { path: 'email', compatibility: 'forward', message: 'is now restricted to string' },
+            { path: '', compatibility: 'forward', message: `key 'email' is now required` },
+        ],
+    });
+
+    expect(v.compare(v2, v1)).toEqual({
+        compatibility: 'backward',
+        changes: [
+            { path: 'role', compatibility: 'backward', message: `now also accepts 'guest'` },
+            { path: 'email', compatibility: 'backward', message: 'is no longer restricted to string' },
+            { path: '', compatibility: 'backward', message: `key 'email' is no longer required` },
+        ],
+    });
+});
+
+test('Adding a required key to a strict object is breaking', () => {
+    const v1 = v.object({ id: v.string() }, { strict: true });
+    const v2 = v.object({ id: v.string(), name: v.string() }, { strict: true });
+
+    expect(v.compare(v1, v2)).toEqual({
+        compatibility: 'breaking',
+        changes: [
+            { path: 'name', compatibility: 'backward', message: 'is now allowed' },
+            { path: '', compatibility: 'forward', message: `key 'name' is now required` },
+        ],
+    });
+
+    expect(v.compare(v1, v.object({ id: v.string() })).changes).toEqual([
+        { path: '', compatibility: 'backward', message: 'unknown keys are now allowed' },
+    ]);
+});
+
+test('Classifies changes within unions', () => {
+    const v1 = v.object({ value: v.union([v.string(), v.object({ amount: v.number() })]) });
+    const v2 = v.object({ value: v.union([v.string(), v.object({ amount: v.string() })]) });
+
+    expect(v.compare(v1, v2)).toEqual({
+        compatibility: 'breaking',
+        changes: [
+            { path: 'value.amount', compatibility: 'breaking', message: 'changed type from number to string' },
+        ],
+    });
+
+    expect(v.compare(v.string(), v.string().orNull()).changes).toEqual([
+        { path: '', compatibility: 'backward', message: 'now also accepts null' },
+    ]);
+    expect(v.compare(v.union([v.string(), v.number()]), v.string()).changes).toEqual([
+        { path: '', compatibility: 'forward', message: 'no longer accepts number' },
+    ]);
+});
+
+test('Compares the variants of tagged unions', () => {
+    const v1 = v.array(v.taggedUnion('kind', {
+        circle: v.object({ radius: v.number() }),
+        square: v.object({ side: v.number() }),
+    }));
+    const v2 = v.array(v.taggedUnion('kind', {
+        circle: v.object({ radius: v.integer() }),
+        triangle: v.object({ base: v.number() }),
+    }));
+
+    expect(v.compare(v1, v2).changes).toEqual([
+        { path: '[*].radius', compatibility: 'forward', message: 'no longer accepts number' },
+        { path: '[*]', compatibility: 'forward', message: `no longer accepts kind 'square'` },
+        { path: '[*]', compatibility: 'backward', message: `now also accepts kind 'triangle'` },
+    ]);
+});
+
+test('Classifies changes to constraints', () => {
+    const compareOptions = (a: object, b: object) => v.compare(v.number().withOptions(a), v.number().withOptions(b)).changes;
+
+    expect(compareOptions({ minimum: 0 }, { exclusiveMinimum: 0 })).toEqual([
+        { path: '', compatibility: 'forward', message: 'lower bound changed from >= 0 to > 0' },
+    ]);
+    expect(compareOptions({ maximum: 10 }, {})).toEqual([
+        { path: '', compatibility: 'backward', message: 'upper bound changed from <= 10 to none' },
+    ]);
+    expect(compareOptions({ multipleOf: 2 }, { multipleOf: 3 })).toEqual([
+        { path: '', compatibility: 'breaking', message: 'multipleOf changed from 2 to 3' },
+    ]);
+
+    const name = (options: object) => v.object({ names: v.array(v.string().withOptions(options)) });
+    expect(v.compare(name({ minLength: 1 }), name({ minLength: 1, maxLength: 10, pattern: '^[a-z]+$' })).changes).toEqual([
+        { path: 'names[*]', compatibility: 'forward', message: 'maxLength changed from none to 10' },
+        { path: 'names[*]', compatibility: 'forward', message: `pattern changed from none to '^[a-z]+$'` },
+    ]);
+
+    expect(v.compare(v.tuple([v.string(), v.number()]), v.tuple([v.string(), v.boolean()])).changes).toEqual([
+        { path: '[1]', compatibility: 'breaking', message: 'changed type from number to boolean' },
+    ]);
+});
+
+test('Compares the number of refinements', () => {
+    const positive = v.number().refine(x => x > 0, 'must be positive');
+
+    expect(v.compare(v.number(), positive).changes).toEqual([
+        { path: '', compatibility: 'forward', message: 'number of refinements changed from 0 to 1' },
+    ]);
+    expect(v.compare(v.object({ a: positive }), v.object({ a: v.number() })).changes).toEqual([
+        { path: 'a', compatibility: 'backward', message: 'number of refinements changed from 1 to 0' },
+    ]);
+    expect(v.compare(v.number(), v.number().refineAsync(async x => x > 0, 'must be positive')).changes).toEqual([
+        { path: '', compatibility: 'forward', message: 'number of refinements changed from 0 to 1' },
+    ]);
+});
+
+test('Can compare recursive types', () => {
+    interface Tree { value: number; children: Tree[]; }
+    const v1 = v.recursive<Tree>('Tree', self => v.object({ value: v.number(), children: v.array(self) }));
+    const v2 = v.recursive<Tree>('Tree', self => v.object({ value: v.integer(), children: v.array(self) }));
+
+    expect(v.compare(v1, v2).changes).toEqual([
+        { path: 'value', compatibility: 'forward', message: 'no longer accepts number' },
+    ]);
+});
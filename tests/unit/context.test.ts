@@ -0,0 +1,68 @@
+import * as v from 'index';
+
+const zip = v.fromSchema({ type: 'string', format: 'zip' } as const);
+
+test('Can validate using a context with its own options', () => {
+    const context = v.createContext({ formats: { zip: /^\d{5}$/ } });
+    const validator = zip.withContext(context);
+
+    expect(validator.isValid('12345')).toBe(true);
+    expect(validator.isValid('1234')).toBe(false);
+    expect(validator.refine(x => x !== '00000', 'reserved').isValid('00000')).toBe(false);
+});
+
+test('Can configure the default context', () => {
+    expect(() => zip.isValid('12345')).toThrow('unknown format "zip"');
+
+    v.configure({ formats: { zip: /^\d{5}$/ } });
+    const validator = v.fromSchema({ type: 'string', format: 'zip' } as const);
+    expect(validator.isValid('1234')).toBe(false);
+
+    v.configure({});
+});
+
+test('Recursive types with the same name can share a context', () => {
+    interface List { next: List | null; }
+    interface Tree { children: Tree[]; }
+
+    const context = v.createContext();
+    const list = v.recursive<List>('Node', node => v.object({ next: node.orNull() })).withContext(context);
+    const tree = v.recursive<Tree>('Node', node => v.object({ children: v.array(node) })).withContext(context);
+
+    expect(list.isValid({ next: { next: null } })).toBe(true);
+    expect(tree.isValid({ children: [{ children: [] }] })).toBe(true);
+    expect(tree.isValid({ next: null })).toBe(false);
+});
+
+test('Decodes with the shared Ajv instance of the context', () => {
+    const context = v.createContext();
+    const createAjv = jest.spyOn(context, 'createAjv');
+
+    for (let i = 0; i < 50; ++i) {
+        const validator = v.object({ at: v.isoDate().or(v.number()), n: v.number([i]) }, { strip: true }).withContext(context);
+        expect(validator.parse({ at: '2020-01-01T00:00:00.000Z', n: i, extra: true })).toEqual({ at: new Date('2020-01-01T00:00:00.000Z'), n: i });
+    }
+
+    expect(createAjv).toHaveBeenCalledTimes(1);
+});
+
+test('Validators composed from a validator with a context use the same context', () => {
+    const context = v.createContext({ formats: { zip: /^\d{5}$/ } });
+    const bound = zip.withContext(context);
+
+    const composed = [
+        bound.orNull(),
+        v.object({ z: bound }),
+        v.array(bound),
+        v.tuple([v.string(), bound]),
+        v.partial(v.object({ z: bound })),
+        v.nominal(bound, 'Zip'),
+    ];
+
+    composed.forEach(validator => expect(validator.getBoundContext()).toBe(context));
+    expect(bound.orNull().isValid(null)).toBe(true);
+    expect(v.object({ z: bound }).isValid({ z: '1234' })).toBe(false);
+    expect(v.object({ z: bound }).isValid({ z: '12345' })).toBe(true);
+
+    expect(() => bound.or(v.string().withContext(v.createContext()))).toThrow('Cannot combine validators that are bound to different contexts');
+});
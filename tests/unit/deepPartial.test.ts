@@ -0,0 +1,26 @@
+import * as v from 'index';
+import { fail, pass, assertTypesEqual } from '../helpers/assert';
+
+test('Can make every key at every depth optional', () => {
+    const x: any = { b: { d: [{}] } };
+
+    const validator = v.deepPartial(v.object({
+        a: v.string(),
+        b: v.object({
+            c: v.number(),
+            d: v.array(v.object({ e: v.boolean() })),
+        }),
+    }));
+
+    if (validator.isValid(x)) {
+        type got = typeof x;
+        type expected = { a?: string, b?: { c?: number, d?: Array<{ e?: boolean }> } };
+        assertTypesEqual<got, expected>();
+        assertTypesEqual<expected, got>();
+        pass();
+    } else {
+        fail();
+    }
+
+    expect(validator.isValid({ b: { c: 'not a number' } })).toBe(false);
+});
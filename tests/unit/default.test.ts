@@ -0,0 +1,84 @@
+import * as v from 'index';
+import { fail, assertTypesEqual } from '../helpers/assert';
+
+test('Missing properties are filled with their default value', () => {
+    const validator = v.object({
+        a: v.string(),
+        page: v.number().default(10),
+    });
+
+    const x: any = { a: 'hi' };
+    const result = validator.validate(x);
+
+    if (result.valid) {
+        type got = typeof result.data;
+        type expected = { a: string, page: number };
+        assertTypesEqual<got, expected>();
+        assertTypesEqual<expected, got>();
+        expect(result.data).toEqual({ a: 'hi', page: 10 });
+    } else {
+        fail();
+    }
+});
+
+test('Never fills default values into the given data', async () => {
+    const validator = v.object({
+        items: v.array(v.object({ page: v.number().default(10) })),
+    });
+
+    const x = { items: [{}] };
+
+    expect(validator.isValid(x)).toBe(true);
+    expect(validator.parse(x)).toEqual({ items: [{ page: 10 }] });
+    expect(await validator.validateAsync(x)).toEqual({ valid: true, data: { items: [{ page: 10 }] } });
+    expect(x).toEqual({ items: [{}] });
+
+    const alternatives = v.object({ page: v.number().default(10), a: v.string() }).or(v.object({ b: v.string() }));
+    const y = { b: '' };
+
+    expect(alternatives.parse(y)).toEqual({ b: '' });
+    expect(y).toEqual({ b: '' });
+});
+
+test('Present properties are still validated', () => {
+    const validator = v.object({
+        page: v.number().default(10),
+    });
+
+    expect(validator.parse({ page: 2 })).toEqual({ page: 2 });
+    expect(() => validator.parse({ page: 'two' })).toThrow(v.ValidationError);
+});
+
+test('Does not modify the original validator', () => {
+    const validator = v.number();
+    validator.default(10);
+
+    expect(validator.getSchema()).toEqual({ type: 'number' });
+});
+
+test('Can specify defaults for an object', () => {
+    const validator = v.object({
+        a: v.string(),
+        b: v.number(),
+        c: v.boolean(),
+    }, {
+        optional: ['b', 'c'],
+        defaults: { b: 3 },
+    });
+
+    const got = validator.parse({ a: 'hi' });
+    type expected = { a: string, b: number, c?: boolean };
+    assertTypesEqual<typeof got, expected>();
+    assertTypesEqual<expected, typeof got>();
+
+    expect(got).toEqual({ a: 'hi', b: 3 });
+    expect(validator.getSchema()).toEqual({
+        type: 'object',
+        properties: {
+            a: { type: 'string' },
+            b: { type: 'number', default: 3 },
+            c: { type: 'boolean' },
+        },
+        required: ['a'],
+    });
+});
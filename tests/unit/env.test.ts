@@ -0,0 +1,72 @@
+import * as v from 'index';
+import { assertTypesEqual, fail } from '../helpers/assert';
+
+const config = {
+    PORT: v.integer().default(8080),
+    DEBUG: v.boolean(),
+    HOSTS: v.array(v.string()),
+};
+
+test('Reads and converts variables to their types', () => {
+    const env = v.env(config, { PORT: '3000', DEBUG: 'yes', HOSTS: 'a.example.com, b.example.com' });
+
+    assertTypesEqual<typeof env, Readonly<{ PORT: number, DEBUG: boolean, HOSTS: string[] }>>();
+    expect(env).toEqual({ PORT: 3000, DEBUG: true, HOSTS: ['a.example.com', 'b.example.com'] });
+    expect(Object.isFrozen(env)).toBe(true);
+
+    expect(v.env(config, { DEBUG: '0', HOSTS: '' })).toEqual({ PORT: 8080, DEBUG: false, HOSTS: [] });
+
+    // only the listed words are booleans, not the keys that every object inherits
+    expect(() => v.env(config, { DEBUG: 'constructor', HOSTS: '' })).toThrow('DEBUG: expected boolean, got string');
+});
+
+test('Converts arrays, unions, nullable types and codecs', () => {
+    const env = v.env({
+        PORTS: v.array(v.integer()),
+        WEIGHTS: v.array(v.number()),
+        TIMEOUT: v.union([v.number(), v.string(['never'])]),
+        NAME: v.string().orNull(),
+        START: v.isoDate(),
+        VERBOSE: v.boolean(),
+    }, { PORTS: '80,443', WEIGHTS: '[0.5, 1.5]', TIMEOUT: 'never', START: '2020-01-01T00:00:00.000Z', VERBOSE: 'OFF' });
+
+    expect(env).toEqual({
+        PORTS: [80, 443],
+        WEIGHTS: [0.5, 1.5],
+        TIMEOUT: 'never',
+        NAME: null,
+        START: new Date('2020-01-01T00:00:00.000Z'),
+        VERBOSE: false,
+    });
+});
+
+test('Reports every invalid or missing variable at once', () => {
+    try {
+        v.env(config, { PORT: '80.5', HOSTS: '[1]', API_SECRET: 'hunter2' });
+        fail();
+    } catch (e) {
+        expect(e).toBeInstanceOf(v.ValidationError);
+        expect(v.errorReports({ errors: e.errors, valid: false })).toEqual([
+            { path: 'PORT', message: 'expected integer, got number', keyword: 'type' },
+            { path: '', message: `missing required key 'DEBUG'`, keyword: 'required' },
+            { path: 'HOSTS[0]', message: 'expected string, got number', keyword: 'type' },
+        ]);
+        expect(e.message).toBe([
+            'Invalid environment:',
+            'PORT: expected integer, got number',
+            `missing required key 'DEBUG'`,
+            'HOSTS[0]: expected string, got number',
+        ].join('\n'));
+        expect(e.value).toEqual({ PORT: '80.5', HOSTS: '[1]' });
+        expect(e.value).not.toHaveProperty('API_SECRET');
+    }
+});
+
+test('Reads process.env by default', () => {
+    process.env.VALIDTYPED_TEST_FLAG = 'true';
+    try {
+        expect(v.env({ VALIDTYPED_TEST_FLAG: v.boolean() })).toEqual({ VALIDTYPED_TEST_FLAG: true });
+    } finally {
+        delete process.env.VALIDTYPED_TEST_FLAG;
+    }
+});
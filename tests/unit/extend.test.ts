@@ -0,0 +1,30 @@
+import * as v from 'index';
+import { fail, pass, assertTypesEqual } from '../helpers/assert';
+
+test('Can extend an object with more keys', () => {
+    const x: any = { name: 'a', id: 'b' };
+
+    const newUser = v.object({ name: v.string(), id: v.number() }, { optional: ['id'] });
+    const validator = v.extend(newUser, { id: v.string() });
+
+    if (validator.isValid(x)) {
+        type got = typeof x;
+        type expected = { name: string, id: string };
+        assertTypesEqual<got, expected>();
+        assertTypesEqual<expected, got>();
+        pass();
+    } else {
+        fail();
+    }
+
+    expect(validator.isValid({ name: 'a' })).toBe(false);
+    expect(validator.isValid({ name: 'a', id: 1 })).toBe(false);
+});
+
+test('Can extend an object with a recursive key', () => {
+    const list = v.recursive<{ next: any }>('List', self => v.object({ next: self.orNull() }));
+    const validator = v.extend(v.object({ list }), { id: v.string() });
+
+    expect(validator.isValid({ id: '', list: { next: { next: null } } })).toBe(true);
+    expect(validator.isValid({ id: '', list: { next: { next: 1 } } })).toBe(false);
+});
@@ -0,0 +1,83 @@
+import * as v from 'index';
+import { Nominal } from 'simplytyped';
+import { fail, pass, assertTypesEqual } from '../helpers/assert';
+
+test('Can validate email addresses', () => {
+    const x: any = 'a@b.com';
+
+    if (v.email().isValid(x)) {
+        assertTypesEqual<typeof x, Nominal<string, 'Email'>>();
+        pass();
+    } else {
+        fail();
+    }
+
+    expect(v.email().isValid('not an email')).toBe(false);
+    expect(v.email().getSchema()).toEqual({ type: 'string', format: 'email' });
+});
+
+test('Can validate the other string formats', () => {
+    const cases: Array<[v.Validator<string>, string, string]> = [
+        [v.uri(), 'https://example.com/a?b=c', 'example.com'],
+        [v.uuid(), '6ba7b810-9dad-11d1-80b4-00c04fd430c8', '6ba7b810'],
+        [v.dateTime(), '2018-11-13T20:20:39+00:00', '2018-11-13'],
+        [v.date(), '2018-11-13', '13-11-2018'],
+        [v.ipv4(), '127.0.0.1', '256.0.0.1'],
+        [v.hostname(), 'example.com', '-example.com'],
+    ];
+
+    cases.forEach(([validator, valid, invalid]) => {
+        expect(validator.isValid(valid)).toBe(true);
+        expect(validator.isValid(invalid)).toBe(false);
+    });
+});
+
+test('Format validators have distinct nominal types', () => {
+    const sendEmail = (to: v.ValidType<ReturnType<typeof v.email>>) => to;
+    const x: any = 'a@b.com';
+
+    if (v.email().isValid(x)) sendEmail(x);
+    else fail();
+
+    expect(v.toTypeScript({ Contact: v.object({ email: v.email(), id: v.uuid() }) })).toBe([
+        `import { Nominal } from 'simplytyped';`,
+        '',
+        'export interface Contact {',
+        `    email: Nominal<string, 'Email'>;`,
+        `    id: Nominal<string, 'Uuid'>;`,
+        '}',
+        '',
+    ].join('\n'));
+});
+
+test('Can validate strings against a regular expression', () => {
+    const currency = v.regex(/^[A-Z]{3}$/, 'CurrencyCode');
+    const x: any = 'CAD';
+
+    if (currency.isValid(x)) {
+        assertTypesEqual<typeof x, Nominal<string, 'CurrencyCode'>>();
+        pass();
+    } else {
+        fail();
+    }
+
+    expect(currency.isValid('cad')).toBe(false);
+    expect(currency.getSchema()).toEqual({ type: 'string', pattern: '^[A-Z]{3}$' });
+    expect(() => v.regex(/^[a-z]+$/i, 'Word')).toThrow('flags');
+});
+
+test('Can register custom formats', () => {
+    const zip = v.registerFormat('zip', 'Zip', data => /^\d{5}$/.test(data));
+    const x: any = '12345';
+
+    if (zip.isValid(x)) {
+        assertTypesEqual<typeof x, Nominal<string, 'Zip'>>();
+        pass();
+    } else {
+        fail();
+    }
+
+    expect(zip.isValid('1234')).toBe(false);
+    expect(v.fromSchema({ type: 'string', format: 'zip' } as const).isValid('1234')).toBe(false);
+    expect(() => v.registerFormat('zip', 'Zip', () => true)).toThrow('already registered');
+});
@@ -0,0 +1,83 @@
+import * as v from 'index';
+import { fail, pass, assertTypesEqual } from '../helpers/assert';
+
+test('Can create a validator from a JSON schema', () => {
+    const schema = {
+        type: 'object',
+        properties: {
+            a: { type: 'string' },
+            b: { type: 'array', items: { type: 'number' } },
+            c: { type: 'string', enum: ['x', 'y'] },
+        },
+        required: ['a', 'c'],
+    } as const;
+
+    const validator = v.fromSchema(schema);
+    const x: any = { a: 'hi', b: [1, 2], c: 'x' };
+
+    if (validator.isValid(x)) {
+        type got = typeof x;
+        type expected = { a: string, b?: number[], c: 'x' | 'y' };
+        assertTypesEqual<got, expected>();
+        assertTypesEqual<expected, got>();
+        pass();
+    } else {
+        fail();
+    }
+
+    expect(validator.isValid({ a: 'hi', c: 'z' })).toBe(false);
+    expect(validator.getSchema()).toEqual(schema);
+});
+
+test('Infers tuples, unions, and intersections', () => {
+    const schema = {
+        allOf: [
+            {
+                type: 'object',
+                properties: { pair: { type: 'array', items: [{ type: 'string' }, { type: 'integer' }] } },
+                required: ['pair'],
+            },
+            {
+                type: 'object',
+                properties: { maybe: { oneOf: [{ type: 'boolean' }, { type: 'null' }] } },
+                required: ['maybe'],
+            },
+        ],
+    } as const;
+
+    const validator = v.fromSchema(schema);
+    const x: any = { pair: ['a', 1], maybe: null };
+
+    if (validator.isValid(x)) {
+        type got = typeof x;
+        type expected = { pair: [string, number] } & { maybe: boolean | null };
+        assertTypesEqual<got, expected>();
+        assertTypesEqual<expected, got>();
+        pass();
+    } else {
+        fail();
+    }
+});
+
+test('Infers records from additionalProperties', () => {
+    const validator = v.fromSchema({ type: 'object', additionalProperties: { type: 'number' } } as const);
+    const x: any = { a: 1, b: 2 };
+
+    if (validator.isValid(x)) {
+        assertTypesEqual<typeof x, Record<string, number>>();
+        pass();
+    } else {
+        fail();
+    }
+});
+
+test('Rejects schemas with unsupported keywords', () => {
+    expect(() => v.fromSchema({ type: 'string', not: { enum: ['a'] } })).toThrow('"not" at #');
+    expect(() => v.fromSchema({
+        type: 'object',
+        properties: {
+            a: { type: 'object', patternProperties: { '^x': { type: 'string' } } },
+        },
+    })).toThrow('"patternProperties" at #/properties/a');
+    expect(() => v.fromSchema({ type: 'array', items: [{ type: 'string', if: {} }] })).toThrow('at #/items/0');
+});
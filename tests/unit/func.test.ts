@@ -0,0 +1,68 @@
+import * as v from 'index';
+import { assertTypesEqual } from '../helpers/assert';
+
+const hook = v.func([v.string(), v.number()], v.boolean());
+
+test('Infers the signature of implementations', () => {
+    const isAllowed = hook.implement((user, level) => level > 2);
+    assertTypesEqual<typeof isAllowed, (a: string, b: number) => boolean>();
+
+    expect(isAllowed('andy', 3)).toBe(true);
+    expect(isAllowed('andy', 1)).toBe(false);
+});
+
+test('Checks the arguments of every call', () => {
+    const implementation = jest.fn(() => true);
+    const isAllowed = hook.implement(implementation);
+
+    expect(() => isAllowed('andy', '3' as any)).toThrow(`Invalid arguments:\n[1]: expected number, got string`);
+    expect(() => (isAllowed as any)('andy')).toThrow(v.ValidationError);
+    expect(implementation).not.toHaveBeenCalled();
+});
+
+test('Checks the return value of every call', () => {
+    const plugin = hook.implement(() => 'yes' as any);
+    expect(() => plugin('andy', 3)).toThrow(`Invalid return value:\nexpected boolean, got string`);
+});
+
+test('Checks the resolved value of async functions', async () => {
+    const isAllowed = hook.implement(async (user, level) => level > 2);
+    assertTypesEqual<typeof isAllowed, (a: string, b: number) => Promise<boolean>>();
+    await expect(isAllowed('andy', 3)).resolves.toBe(true);
+
+    const plugin = hook.implement(async () => 'yes' as any);
+    await expect(plugin('andy', 3)).rejects.toThrow(`Invalid return value:\nexpected boolean, got string`);
+});
+
+test('Decodes arguments and encodes the return value', () => {
+    const nextDay = v.func([v.isoDate()], v.isoDate()).implement(date => {
+        assertTypesEqual<typeof date, Date>();
+        return new Date(date.getTime() + 24 * 60 * 60 * 1000);
+    });
+
+    assertTypesEqual<typeof nextDay, (a: string) => string>();
+    expect(nextDay('2020-01-01T00:00:00.000Z')).toBe('2020-01-02T00:00:00.000Z');
+});
+
+test('Reports return values that cannot be encoded as invalid', () => {
+    const today = v.func([], v.isoDate()).implement(() => '2020-01-01' as any);
+    expect(() => today()).toThrow(v.ValidationError);
+    expect(() => today()).toThrow(/^Invalid return value:\ncannot be encoded: /);
+});
+
+test('Can wrap functions without parameters', () => {
+    const isReady = v.func([], v.boolean()).implement(() => true);
+    assertTypesEqual<typeof isReady, () => boolean>();
+
+    expect(isReady()).toBe(true);
+    expect(() => (isReady as any)('andy')).toThrow(v.ValidationError);
+});
+
+test('Keeps the receiver of the call', () => {
+    const counter = {
+        count: 2,
+        add: v.func([v.number()], v.number()).implement(function(this: { count: number }, n) { return this.count + n; }),
+    };
+
+    expect(counter.add(3)).toBe(5);
+});
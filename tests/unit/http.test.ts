@@ -0,0 +1,139 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as v from 'index';
+import { assertTypesEqual } from '../helpers/assert';
+
+interface Reply { status: number; body: any; }
+
+// starts a local server for a single request, and resolves to the parsed response
+const request = (listener: http.RequestListener, method: string, path: string, body?: string) => new Promise<Reply>((resolve, reject) => {
+    const server = http.createServer(listener).listen(0, '127.0.0.1', () => {
+        const { port } = server.address() as AddressInfo;
+        const req = http.request({ host: '127.0.0.1', port, method, path, headers: { 'content-type': 'application/json', 'x-request-id': '42' } }, res => {
+            const chunks: Buffer[] = [];
+            res.on('data', chunk => chunks.push(chunk));
+            res.on('end', () => {
+                server.close();
+                const text = Buffer.concat(chunks).toString('utf8');
+                resolve({ status: res.statusCode!, body: text ? JSON.parse(text) : undefined });
+            });
+        });
+        req.on('error', err => {
+            server.close();
+            reject(err);
+        });
+        req.end(body);
+    });
+});
+
+const user = v.object({ id: v.integer(), name: v.string() });
+const createUser = {
+    query: v.object({ notify: v.boolean(), tags: v.array(v.string()) }, { optional: ['tags'] }),
+    headers: v.object({ 'x-request-id': v.integer() }),
+    body: v.object({ name: v.string() }),
+    response: user,
+};
+
+test('Validates and converts each part of the request', async () => {
+    const handler = v.requestHandler(createUser, (req, res) => {
+        assertTypesEqual<typeof req.valid.body, { name: string }>();
+        expect(req.valid.query).toEqual({ notify: true, tags: ['a', 'b'] });
+        expect(req.valid.headers['x-request-id']).toBe(42);
+
+        res.sendValid({ id: 1, name: req.valid.body.name }, 201);
+    });
+
+    const reply = await request(handler, 'POST', '/users?notify=true&tags=a&tags=b', JSON.stringify({ name: 'Andy' }));
+    expect(reply).toEqual({ status: 201, body: { id: 1, name: 'Andy' } });
+});
+
+test('Replies 400 with every error of the request', async () => {
+    const handler = v.requestHandler(createUser, (req, res) => res.sendValid({ id: 1, name: 'never' }));
+
+    const reply = await request(handler, 'POST', '/users?notify=maybe', JSON.stringify({ name: 22 }));
+    expect(reply).toEqual({
+        status: 400,
+        body: {
+            errors: [
+                { path: 'query.notify', message: 'expected boolean, got string', keyword: 'type' },
+                { path: 'body.name', message: 'expected string, got number', keyword: 'type' },
+            ],
+        },
+    });
+
+    const invalidJson = await request(handler, 'POST', '/users?notify=true', '{ name');
+    expect(invalidJson).toEqual({ status: 400, body: { errors: [{ path: 'body', message: 'is not valid JSON', keyword: 'json' }] } });
+});
+
+test('Passes invalid responses and errors of the handler to next', async () => {
+    const errors: unknown[] = [];
+    const validate = v.requestValidator(createUser);
+
+    // a minimal express-style chain, which reports errors with status 500
+    const chain: http.RequestListener = (req, res) => {
+        const next = (err?: unknown) => {
+            errors.push(err);
+            res.statusCode = 500;
+            res.end();
+        };
+        validate(req, res, err => {
+            if (err) return next(err);
+            (res as v.ValidatedResponse<typeof createUser>).sendValid({ id: 'one' } as any);
+        });
+    };
+
+    const reply = await request(chain, 'POST', '/users?notify=0', JSON.stringify({ name: 'Andy' }));
+    expect(reply.status).toBe(500);
+    expect(errors[0]).toBeInstanceOf(v.ValidationError);
+    expect((errors[0] as Error).message).toBe(`Invalid response:\nid: expected integer, got string`);
+
+    const throwing = v.requestHandler({}, () => { throw new Error('oops'); });
+    expect((await request(throwing, 'GET', '/')).status).toBe(500);
+});
+
+test('Validates async refinements of the request and passes their errors to next', async () => {
+    const signup = {
+        body: v.object({
+            username: v.string().refineAsync(async name => {
+                if (name === 'oops') throw new Error('database is down');
+                return name !== 'taken';
+            }, 'username is taken'),
+        }),
+    };
+    const handler = v.requestHandler(signup, (req, res) => res.sendValid(req.valid.body));
+
+    const valid = await request(handler, 'POST', '/signup', JSON.stringify({ username: 'andy' }));
+    expect(valid).toEqual({ status: 200, body: { username: 'andy' } });
+
+    const taken = await request(handler, 'POST', '/signup', JSON.stringify({ username: 'taken' }));
+    expect(taken).toEqual({ status: 400, body: { errors: [{ path: 'body.username', message: 'username is taken', keyword: 'refineAsync' }] } });
+
+    const failed = await request(handler, 'POST', '/signup', JSON.stringify({ username: 'oops' }));
+    expect(failed.status).toBe(500);
+});
+
+test('Replies 413 to bodies larger than the limit', async () => {
+    const handler = v.requestHandler({ body: v.object({ name: v.string() }) }, (req, res) => res.sendValid(req.valid.body), { limit: 32 });
+
+    const small = await request(handler, 'POST', '/users', JSON.stringify({ name: 'Andy' }));
+    expect(small).toEqual({ status: 200, body: { name: 'Andy' } });
+
+    const large = await request(handler, 'POST', '/users', JSON.stringify({ name: 'Andy'.repeat(10) }));
+    expect(large).toEqual({ status: 413, body: { errors: [{ path: 'body', message: 'is larger than 32 bytes', keyword: 'limit' }] } });
+});
+
+test('Uses the params, query and body parsed by a framework', async () => {
+    const route = { params: v.object({ id: v.integer() }), body: v.object({ name: v.string() }) };
+    const handler = v.requestHandler(route, (req, res) => {
+        res.sendValid({ id: req.valid.params.id, name: req.valid.body.name });
+    });
+
+    const framework: http.RequestListener = (req, res) => {
+        // frameworks add the route params and the parsed body to the request
+        Object.assign(req, { params: { id: '7' }, body: { name: 'Andy' } });
+        handler(req, res);
+    };
+
+    const reply = await request(framework, 'PUT', '/users/7');
+    expect(reply).toEqual({ status: 200, body: { id: 7, name: 'Andy' } });
+});
@@ -0,0 +1,37 @@
+import * as v from 'index';
+
+test('Adding options after validating does not leave a stale compiled schema', () => {
+    const validator = v.string();
+    expect(validator.isValid('')).toBe(true);
+
+    const nonEmpty = validator.withOptions({ minLength: 1 });
+    expect(nonEmpty.isValid('')).toBe(false);
+    expect(nonEmpty.getSchema()).toEqual({ type: 'string', minLength: 1 });
+});
+
+test('Adding options does not change validators that share the original', () => {
+    const name = v.string();
+    const user = v.object({ name });
+
+    const shortName = name.withOptions({ maxLength: 2 });
+
+    expect(name.getSchema()).toEqual({ type: 'string' });
+    expect(name.isValid('long name')).toBe(true);
+    expect(user.isValid({ name: 'long name' })).toBe(true);
+    expect(shortName.isValid('long name')).toBe(false);
+});
+
+test('Adding meta-data creates a new validator', () => {
+    const validator = v.string();
+    const titled = validator.setSchemaMetaData({ title: 'Name' });
+
+    expect(titled).not.toBe(validator);
+    expect(validator.getSchema()).toEqual({ type: 'string' });
+    expect(titled.getSchema()).toEqual({ type: 'string', title: 'Name' });
+});
+
+test('Builders keep the nominal type of a validator', () => {
+    const id = v.nominal(v.string(), 'Id').withOptions({ minLength: 1 }).setSchemaMetaData({ title: 'UserId' });
+
+    expect(v.toTypeScript({ id })).toContain(`export type UserId = Nominal<string, 'Id'>;`);
+});
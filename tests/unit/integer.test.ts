@@ -0,0 +1,30 @@
+import * as v from 'index';
+import { fail, pass, assertTypesEqual } from '../helpers/assert';
+
+test('Can validate an integer', () => {
+    const x: any = 22;
+
+    const validator = v.integer();
+
+    if (validator.isValid(x)) {
+        assertTypesEqual<typeof x, number>();
+        pass();
+    } else {
+        fail();
+    }
+});
+
+test('Can validate not an integer', () => {
+    const validator = v.integer();
+
+    expect(validator.isValid(1.5)).toBe(false);
+    expect(validator.isValid('1')).toBe(false);
+});
+
+test('Can create an integer validator from its schema', () => {
+    const schema: v.IntegerSchema = { type: 'integer', minimum: 1 };
+    const validator = new v.Validator<number>(schema);
+
+    expect(validator.getSchema()).toEqual({ type: 'integer', minimum: 1 });
+    expect(validator.isValid(0)).toBe(false);
+});
@@ -0,0 +1,44 @@
+import * as v from 'index';
+import { fail, pass, assertTypesEqual } from '../helpers/assert';
+
+test('Can merge two objects into a single object', () => {
+    const x: any = { a: '', b: 22 };
+
+    const validator = v.merge(
+        v.object({ a: v.string(), b: v.string() }),
+        v.object({ b: v.number(), c: v.boolean() }, { optional: ['c'] }),
+    );
+
+    if (validator.isValid(x)) {
+        type got = typeof x;
+        type expected = { a: string, b: number, c?: boolean };
+        assertTypesEqual<got, expected>();
+        assertTypesEqual<expected, got>();
+        pass();
+    } else {
+        fail();
+    }
+
+    expect(validator.getSchema()).toEqual({
+        type: 'object',
+        properties: { a: { type: 'string' }, b: { type: 'number' }, c: { type: 'boolean' } },
+        required: ['a', 'b'],
+    });
+});
+
+test('Merged objects are strict if either object is strict', () => {
+    const validator = v.merge(v.object({ a: v.string() }, { strict: true }), v.object({ b: v.number() }, { strip: true }));
+
+    expect(validator.isValid({ a: '', b: 1 })).toBe(true);
+    expect(validator.isValid({ a: '', b: 1, c: 2 })).toBe(false);
+});
+
+test('Keeps the recursive definitions of both objects', () => {
+    const list = v.recursive<{ next: any }>('List', self => v.object({ next: self.orNull() }));
+    const tree = v.recursive<{ children: any[] }>('Tree', self => v.object({ children: v.array(self) }));
+    const validator = v.merge(v.object({ list }), v.object({ tree }));
+
+    expect(validator.isValid({ list: { next: null }, tree: { children: [{ children: [] }] } })).toBe(true);
+    expect(validator.isValid({ list: { next: 1 }, tree: { children: [] } })).toBe(false);
+    expect(validator.isValid({ list: { next: null }, tree: { children: [{}] } })).toBe(false);
+});
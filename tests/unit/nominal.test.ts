@@ -14,3 +14,21 @@ test('Can validate a string but generate a nominal type', () => {
         fail();
     }
 });
+
+test('Keeps the refinements, codecs and context of the branded validator', () => {
+    const positive = v.nominal(v.number().refine(x => x > 0, 'must be positive'), 'Positive');
+    expect(positive.isValid(-1)).toBe(false);
+    expect(positive.isValid(1)).toBe(true);
+
+    const page = v.min(v.integer().refine(x => x % 2 === 0, 'must be even'), 1, 'EvenPage');
+    expect(page.isValid(3)).toBe(false);
+    expect(page.isValid(2)).toBe(true);
+
+    const day = v.nominal(v.isoDate(), 'Day');
+    expect(day.parse('2020-01-01T00:00:00.000Z')).toEqual(new Date('2020-01-01T00:00:00.000Z'));
+
+    const context = v.createContext({ formats: { zip: /^\d{5}$/ } });
+    const zip = v.nominal(v.fromSchema({ type: 'string', format: 'zip' } as const).withContext(context), 'Zip');
+    expect(zip.isValid('12345')).toBe(true);
+    expect(zip.isValid('1234')).toBe(false);
+});
@@ -22,3 +22,19 @@ test('Can validate not a number', () => {
     if (validator.isValid(x)) fail();
     else pass();
 });
+
+test('Can validate a union of number literals', () => {
+    const x: any = 25;
+
+    const validator = v.number([ 10, 25, 50 ]);
+
+    if (validator.isValid(x)) {
+        assertTypesEqual<typeof x, 10 | 25 | 50>();
+        assertTypesEqual<10 | 25 | 50, typeof x>();
+        pass();
+    } else {
+        fail();
+    }
+
+    expect(validator.isValid(20)).toBe(false);
+});
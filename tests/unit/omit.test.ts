@@ -0,0 +1,38 @@
+import * as v from 'index';
+import { fail, pass, assertTypesEqual } from '../helpers/assert';
+
+test('Can omit keys of an object', () => {
+    const x: any = { name: 'a' };
+
+    const user = v.object({
+        id: v.string(),
+        name: v.string(),
+        nickname: v.string(),
+    }, { optional: ['nickname'] });
+
+    const validator = v.omit(user, ['id']);
+
+    if (validator.isValid(x)) {
+        type got = typeof x;
+        type expected = { name: string, nickname?: string };
+        assertTypesEqual<got, expected>();
+        assertTypesEqual<expected, got>();
+        pass();
+    } else {
+        fail();
+    }
+
+    expect(validator.getSchema()).toEqual({
+        type: 'object',
+        properties: { name: { type: 'string' }, nickname: { type: 'string' } },
+        required: ['name'],
+    });
+});
+
+test('Can omit keys of an object with a recursive key', () => {
+    const list = v.recursive<{ next: any }>('List', self => v.object({ next: self.orNull() }));
+    const validator = v.omit(v.object({ id: v.string(), list }), ['id']);
+
+    expect(validator.isValid({ list: { next: { next: null } } })).toBe(true);
+    expect(validator.isValid({ list: { next: { next: 1 } } })).toBe(false);
+});
@@ -0,0 +1,176 @@
+import * as v from 'index';
+
+const info = { title: 'Users', version: '1.0.0' };
+
+const user = v.object({
+    id: v.string(),
+    name: v.string(),
+    nickname: v.string().orNull(),
+}).setSchemaMetaData({ title: 'User', description: 'A registered user' });
+
+test('Can generate a document for a set of routes', () => {
+    const document = v.toOpenApi(info, [
+        { method: 'get', path: '/users/{id}', params: v.object({ id: v.string() }), response: user },
+        { method: 'get', path: '/users', query: v.object({ name: v.string() }, { optional: ['name'] }), response: v.array(user) },
+        { method: 'post', path: '/users', summary: 'Creates a user', body: v.omit(user, ['id']), responses: { 201: user } },
+    ]);
+
+    expect(document.openapi).toBe('3.0.3');
+    expect(document.info).toEqual(info);
+
+    expect(document.paths['/users/{id}'].get).toEqual({
+        parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'string' } },
+        ],
+        responses: {
+            200: {
+                description: 'A registered user',
+                content: { 'application/json': { schema: { $ref: '#/components/schemas/User' } } },
+            },
+        },
+    });
+
+    expect(document.paths['/users'].get).toEqual({
+        parameters: [
+            { name: 'name', in: 'query', required: false, schema: { type: 'string' } },
+        ],
+        responses: {
+            200: {
+                description: '200 response',
+                content: { 'application/json': { schema: { type: 'array', items: { $ref: '#/components/schemas/User' } } } },
+            },
+        },
+    });
+
+    const create: any = document.paths['/users'].post;
+    expect(create.summary).toBe('Creates a user');
+    expect(create.requestBody.required).toBe(true);
+    expect(create.requestBody.content['application/json'].schema.properties).toEqual({
+        name: { type: 'string' },
+        nickname: { type: 'string', nullable: true },
+    });
+    expect(create.responses[201].content['application/json'].schema).toEqual({ $ref: '#/components/schemas/User' });
+});
+
+test('Adds named validators to the components', () => {
+    const document = v.toOpenApi(info, [{ method: 'get', path: '/users', response: user }]);
+
+    expect(document.components.schemas).toEqual({
+        User: {
+            type: 'object',
+            title: 'User',
+            description: 'A registered user',
+            properties: {
+                id: { type: 'string' },
+                name: { type: 'string' },
+                nickname: { type: 'string', nullable: true },
+            },
+            required: ['id', 'name', 'nickname'],
+        },
+    });
+});
+
+test('Translates nullable types', () => {
+    const types = v.fromSchema({ type: ['string', 'null'] } as const);
+
+    const document = v.toOpenApi(info, [{
+        method: 'get',
+        path: '/things',
+        response: v.object({
+            nothing: v.nil(),
+            maybeUser: user.orNull(),
+            either: v.union([v.string(), v.number()]).orNull(),
+            types,
+        }),
+    }]);
+
+    const schema: any = (document.paths['/things'].get as any).responses[200].content['application/json'].schema;
+    expect(schema.properties).toEqual({
+        nothing: { nullable: true, enum: [null] },
+        maybeUser: { allOf: [{ $ref: '#/components/schemas/User' }], nullable: true },
+        either: { oneOf: [{ type: 'string' }, { type: 'number' }], nullable: true },
+        types: { type: 'string', nullable: true },
+    });
+});
+
+test('Translates keywords that OpenAPI 3.0 does not support', () => {
+    const kind = v.fromSchema({ const: 'score' } as const);
+
+    const document = v.toOpenApi(info, [{
+        method: 'post',
+        path: '/scores',
+        body: v.object({
+            kind,
+            score: v.exclusiveMin(v.number(), 0).refine(x => x < 100, 'too large'),
+            pair: v.tuple([v.string(), v.number()]),
+            names: v.tuple([v.string(), v.string()], v.number()),
+            same: v.tuple([v.string(), v.string()]),
+        }, { strip: true }),
+    }]);
+
+    const schema: any = (document.paths['/scores'].post as any).requestBody.content['application/json'].schema;
+    expect(schema.stripUnknown).toBeUndefined();
+    expect(schema.properties).toEqual({
+        kind: { enum: ['score'] },
+        score: { type: 'number', minimum: 0, exclusiveMinimum: true },
+        pair: { type: 'array', items: { anyOf: [{ type: 'string' }, { type: 'number' }] }, minItems: 2, maxItems: 2 },
+        names: { type: 'array', items: { anyOf: [{ type: 'string' }, { type: 'number' }] }, minItems: 2 },
+        same: { type: 'array', items: { type: 'string' }, minItems: 2, maxItems: 2 },
+    });
+});
+
+test('Describes tagged unions with a discriminator', () => {
+    const circle = v.object({ radius: v.number() }).setSchemaMetaData({ title: 'Circle' });
+    const shape = v.taggedUnion('kind', {
+        circle,
+        square: v.object({ side: v.number() }),
+    });
+
+    const document = v.toOpenApi(info, [{ method: 'get', path: '/shape', response: shape }]);
+
+    const schema: any = (document.paths['/shape'].get as any).responses[200].content['application/json'].schema;
+    expect(schema).toEqual({
+        oneOf: [
+            { $ref: '#/components/schemas/Circle' },
+            {
+                type: 'object',
+                properties: { kind: { type: 'string', enum: ['square'] }, side: { type: 'number' } },
+                required: ['kind', 'side'],
+            },
+        ],
+        discriminator: { propertyName: 'kind', mapping: { circle: '#/components/schemas/Circle' } },
+    });
+});
+
+test('Can describe recursive types', () => {
+    interface Tree { value: number; children: Tree[]; }
+    const tree = v.recursive<Tree>('Tree', self => v.object({ value: v.number(), children: v.array(self) }));
+
+    const document = v.toOpenApi(info, [{ method: 'get', path: '/tree', response: tree }]);
+
+    expect(document.components.schemas).toEqual({
+        Tree: {
+            type: 'object',
+            properties: {
+                value: { type: 'number' },
+                children: { type: 'array', items: { $ref: '#/components/schemas/Tree' } },
+            },
+            required: ['value', 'children'],
+        },
+    });
+});
+
+test('Rejects routes that cannot be described', () => {
+    expect(() => v.toOpenApi(info, [{ method: 'get', path: '/users/{id}' }]))
+        .toThrow(`The path parameter(s) 'id' of GET /users/{id} must be described by its params`);
+
+    expect(() => v.toOpenApi(info, [{ method: 'get', path: '/users', query: v.string() }]))
+        .toThrow('Must only describe the query parameters of GET /users with an object schema');
+
+    expect(() => v.toOpenApi(info, [{ method: 'get', path: '/users' }, { method: 'get', path: '/users' }]))
+        .toThrow('Cannot describe GET /users more than once');
+
+    const other = v.object({ email: v.string() }).setSchemaMetaData({ title: 'User' });
+    expect(() => v.toOpenApi(info, [{ method: 'get', path: '/a', response: user }, { method: 'get', path: '/b', response: other }]))
+        .toThrow(`Cannot add two different schemas named 'User' to the components of an OpenAPI document`);
+});
@@ -0,0 +1,48 @@
+import * as v from 'index';
+import { fail, pass, assertTypesEqual } from '../helpers/assert';
+
+const user = v.object({
+    name: v.string(),
+    address: v.object({ zip: v.string() }),
+}).setSchemaMetaData({ title: 'User' });
+
+test('Parse returns valid data', () => {
+    const x: unknown = { name: 'a', address: { zip: '1' } };
+
+    const got = user.parse(x);
+    assertTypesEqual<typeof got, { name: string, address: { zip: string } }>();
+    expect(got).toBe(x);
+});
+
+test('Parse throws a ValidationError for invalid data', () => {
+    const x = { name: 'a', address: { zip: 1 } };
+
+    try {
+        user.parse(x);
+        fail();
+    } catch (e) {
+        expect(e).toBeInstanceOf(v.ValidationError);
+        expect(e).toBeInstanceOf(Error);
+        expect(e.name).toBe('ValidationError');
+        expect(e.value).toBe(x);
+        expect(e.title).toBe('User');
+        expect(e.errors.length).toBe(1);
+        expect(e.message).toBe('Invalid User:\naddress.zip: expected string, got number');
+    }
+});
+
+test('Assert narrows the type of valid data', () => {
+    const validator: v.Validator<string> = v.string();
+    const x: unknown = 'hi';
+
+    validator.assert(x);
+    assertTypesEqual<typeof x, string>();
+    pass();
+});
+
+test('Assert throws a ValidationError for invalid data', () => {
+    const validator: v.Validator<string> = v.string();
+
+    expect(() => validator.assert(22)).toThrow(v.ValidationError);
+    expect(() => validator.assert(22)).toThrow('Validation failed:\nexpected string, got number');
+});
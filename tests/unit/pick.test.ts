@@ -0,0 +1,49 @@
+import * as v from 'index';
+import { fail, pass, assertTypesEqual } from '../helpers/assert';
+
+const user = v.object({
+    id: v.string(),
+    name: v.string(),
+    nickname: v.string(),
+}, { optional: ['nickname'] });
+
+test('Can pick keys of an object', () => {
+    const x: any = { name: 'a' };
+
+    const validator = v.pick(user, ['name', 'nickname']);
+
+    if (validator.isValid(x)) {
+        type got = typeof x;
+        type expected = { name: string, nickname?: string };
+        assertTypesEqual<got, expected>();
+        assertTypesEqual<expected, got>();
+        pass();
+    } else {
+        fail();
+    }
+
+    expect(validator.getSchema()).toEqual({
+        type: 'object',
+        properties: { name: { type: 'string' }, nickname: { type: 'string' } },
+        required: ['name'],
+    });
+});
+
+test('Picked strict objects reject the keys that were not picked', () => {
+    const validator = v.pick(v.object({ a: v.string(), b: v.string() }, { strict: true }), ['a']);
+
+    expect(validator.isValid({ a: '' })).toBe(true);
+    expect(validator.isValid({ a: '', b: '' })).toBe(false);
+});
+
+test('Can only pick keys of an object', () => {
+    expect(() => v.pick(v.string() as any, [])).toThrow('Must only apply pick to an object schema');
+});
+
+test('Can pick a recursive key of an object', () => {
+    const list = v.recursive<{ next: any }>('List', self => v.object({ next: self.orNull() }));
+    const validator = v.pick(v.object({ id: v.string(), list }), ['list']);
+
+    expect(validator.isValid({ list: { next: { next: null } } })).toBe(true);
+    expect(validator.isValid({ list: { next: { next: 1 } } })).toBe(false);
+});
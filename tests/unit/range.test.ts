@@ -0,0 +1,41 @@
+import * as v from 'index';
+import { Nominal } from 'simplytyped';
+import { fail, pass, assertTypesEqual } from '../helpers/assert';
+
+test('Can validate a number within a range', () => {
+    const percent = v.max(v.min(v.number(), 0), 100);
+
+    expect(percent.isValid(0)).toBe(true);
+    expect(percent.isValid(100)).toBe(true);
+    expect(percent.isValid(-3)).toBe(false);
+    expect(percent.isValid(100.5)).toBe(false);
+    expect(percent.getSchema()).toEqual({ type: 'number', minimum: 0, maximum: 100 });
+});
+
+test('Can brand a bounded number', () => {
+    const page = v.min(v.integer(), 1, 'PositiveInt');
+    const x: any = 2;
+
+    if (page.isValid(x)) {
+        assertTypesEqual<typeof x, Nominal<number, 'PositiveInt'>>();
+        pass();
+    } else {
+        fail();
+    }
+
+    expect(page.isValid(1.5)).toBe(false);
+    expect(page.isValid(0)).toBe(false);
+    expect(v.toTypeScript({ Page: page })).toBe(`import { Nominal } from 'simplytyped';\n\nexport type Page = Nominal<number, 'PositiveInt'>;\n`);
+});
+
+test('Can validate exclusive minimums and multiples', () => {
+    const price = v.multipleOf(v.exclusiveMin(v.number(), 0), 0.25, 'Price');
+
+    expect(price.isValid(0.75)).toBe(true);
+    expect(price.isValid(0)).toBe(false);
+    expect(price.isValid(0.3)).toBe(false);
+});
+
+test('Can only bound number types', () => {
+    expect(() => v.min(v.string() as any, 1)).toThrow('Must only apply minimum to a number schema');
+});
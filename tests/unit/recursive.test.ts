@@ -0,0 +1,119 @@
+import * as v from 'index';
+import { fail, pass, assertTypesEqual } from '../helpers/assert';
+
+interface Node {
+    value: number;
+    children: Node[];
+}
+
+const node = v.recursive<Node>('Node', node => v.object({
+    value: v.number(),
+    children: v.array(node),
+}));
+
+test('Can validate a recursive type', () => {
+    const x: any = {
+        value: 1,
+        children: [
+            { value: 2, children: [] },
+            { value: 3, children: [{ value: 4, children: [] }] },
+        ],
+    };
+
+    if (node.isValid(x)) {
+        assertTypesEqual<typeof x, Node>();
+        assertTypesEqual<Node, typeof x>();
+        pass();
+    } else {
+        fail();
+    }
+});
+
+test('Recursive types are checked at every depth', () => {
+    const x: any = {
+        value: 1,
+        children: [
+            { value: 3, children: [{ value: 'four', children: [] }] },
+        ],
+    };
+
+    if (node.isValid(x)) fail();
+    else pass();
+});
+
+test('Can nest a recursive type inside of other schemas', () => {
+    const validator = v.object({
+        root: node,
+        others: v.array(node),
+    });
+
+    const x: any = {
+        root: { value: 1, children: [] },
+        others: [{ value: 2, children: [{ value: 3, children: [] }] }],
+    };
+
+    if (validator.isValid(x)) {
+        assertTypesEqual<typeof x, { root: Node, others: Node[] }>();
+        pass();
+    } else {
+        fail();
+    }
+
+    expect(validator.isValid({ root: { value: 1, children: [{ value: 2 }] }, others: [] })).toBe(false);
+});
+
+test('Can validate mutually recursive types', () => {
+    interface Tree { label: string; forest: Forest; }
+    interface Forest { trees: Tree[]; }
+
+    const tree = v.recursive<Tree>('Tree', tree => v.object({
+        label: v.string(),
+        forest: v.recursive<Forest>('Forest', forest => v.object({
+            trees: v.array(tree),
+        })),
+    }));
+
+    const x: any = {
+        label: 'a',
+        forest: { trees: [{ label: 'b', forest: { trees: [] } }] },
+    };
+
+    if (tree.isValid(x)) {
+        assertTypesEqual<typeof x, Tree>();
+        pass();
+    } else {
+        fail();
+    }
+
+    expect(tree.isValid({ label: 'a', forest: { trees: [{ label: 2, forest: { trees: [] } }] } })).toBe(false);
+});
+
+test('Describes recursive types with definitions, which are moved to the root of other schemas', () => {
+    expect(node.getSchema()).toEqual({
+        definitions: {
+            Node: {
+                type: 'object',
+                properties: { value: { type: 'number' }, children: { type: 'array', items: { $ref: '#/definitions/Node' } } },
+                required: ['value', 'children'],
+            },
+        },
+        $ref: '#/definitions/Node',
+    });
+
+    const schema: any = v.object({ root: node, others: v.array(node) }).getSchema();
+    expect(schema.properties).toEqual({ root: { $ref: '#/definitions/Node' }, others: { type: 'array', items: { $ref: '#/definitions/Node' } } });
+    expect(schema.definitions).toEqual(node.getSchema().definitions);
+});
+
+test('Can refine and asynchronously validate recursive types', async () => {
+    const small = node.refine(x => x.children.length < 2, 'must have fewer than 2 children');
+
+    expect(small.isValid({ value: 1, children: [] })).toBe(true);
+    expect(small.isValid({ value: 1, children: [{ value: 2, children: [] }, { value: 3, children: [] }] })).toBe(false);
+    expect(await v.object({ root: node }).isValidAsync({ root: { value: 1, children: [{ value: 2, children: [] }] } })).toBe(true);
+});
+
+test('Cannot nest two different recursive types with the same name', () => {
+    const list = v.recursive<{ next: any }>('Node', self => v.object({ next: self.orNull() }));
+    expect(() => v.object({ a: node, b: list })).toThrow(`Cannot use two different definitions named 'Node' within the same schema`);
+});
@@ -0,0 +1,80 @@
+import * as v from 'index';
+import { Nominal } from 'simplytyped';
+import { fail, pass, assertTypesEqual } from '../helpers/assert';
+
+const range = v.object({ start: v.number(), end: v.number() })
+    .refine(x => x.start < x.end, 'start must precede end');
+
+test('Can refine a validator with a predicate', () => {
+    const x: any = { start: 1, end: 2 };
+
+    if (range.isValid(x)) {
+        assertTypesEqual<typeof x, { start: number, end: number }>();
+        pass();
+    } else {
+        fail();
+    }
+
+    expect(range.isValid({ start: 2, end: 1 })).toBe(false);
+});
+
+test('Failed refinements are reported as errors', () => {
+    const result = range.validate({ start: 2, end: 1 });
+    if (result.valid) return fail();
+
+    expect(result.errors.length).toBe(1);
+    expect(result.errors[0].keyword).toBe('refine');
+    expect(result.errors[0].message).toBe('start must precede end');
+    expect(v.formatErrors(result)).toBe('start must precede end');
+});
+
+test('Refinements only run once the schema matches', () => {
+    const predicate = jest.fn(() => true);
+    const validator = v.object({ a: v.string() }).refine(predicate, 'never fails');
+
+    expect(validator.isValid({ a: 22 })).toBe(false);
+    expect(predicate).not.toHaveBeenCalled();
+});
+
+test('Refinements are kept when composing validators', () => {
+    const validator = v.object({ ranges: v.array(range) });
+
+    const result = validator.validate({ ranges: [{ start: 1, end: 2 }, { start: 3, end: 0 }] });
+    if (result.valid) return fail();
+
+    expect(v.formatErrors(result)).toBe('ranges[1]: start must precede end');
+});
+
+test('Can chain refinements', () => {
+    const validator = v.number()
+        .refine(x => x > 0, 'must be positive')
+        .refine(x => x % 2 === 0, 'must be even');
+
+    expect(validator.isValid(2)).toBe(true);
+    expect(validator.isValid(-2)).toBe(false);
+    expect(validator.isValid(3)).toBe(false);
+});
+
+test('Can refine to a nominal type', () => {
+    const validator = v.number().refine(x => x % 2 === 0, 'must be even', 'Even');
+    const x: any = 2;
+
+    if (validator.isValid(x)) {
+        assertTypesEqual<typeof x, Nominal<number, 'Even'>>();
+        pass();
+    } else {
+        fail();
+    }
+});
+
+test('Refinements are not a part of the JSON schema', () => {
+    expect(range.getSchema()).toEqual(v.object({ start: v.number(), end: v.number() }).getSchema());
+    expect(range.withOptions({ minProperties: 2 }).isValid({ start: 2, end: 1 })).toBe(false);
+});
+
+test('Refinements with the same schema and message are told apart', () => {
+    const below = (limit: number) => v.number().refine(x => x < limit, 'is too large');
+
+    expect(below(10).isValid(5)).toBe(true);
+    expect(below(1).isValid(5)).toBe(false);
+});
@@ -0,0 +1,38 @@
+import * as v from 'index';
+import { fail, pass, assertTypesEqual } from '../helpers/assert';
+
+test('Can make every key of an object required', () => {
+    const x: any = { a: '', b: 22 };
+
+    const validator = v.required(v.partial(v.object({
+        a: v.string(),
+        b: v.number(),
+    })));
+
+    if (validator.isValid(x)) {
+        type got = typeof x;
+        type expected = { a: string, b: number };
+        assertTypesEqual<got, expected>();
+        assertTypesEqual<expected, got>();
+        pass();
+    } else {
+        fail();
+    }
+
+    expect(validator.isValid({ a: '' })).toBe(false);
+});
+
+test('Keys with default values are filled in rather than required', () => {
+    const validator = v.required(v.object({ a: v.string(), b: v.number().default(1) }));
+
+    expect(validator.parse({ a: '' })).toEqual({ a: '', b: 1 });
+});
+
+test('Can require the keys of an object with a recursive key', () => {
+    const list = v.recursive<{ next: any }>('List', self => v.object({ next: self.orNull() }));
+    const validator = v.required(v.object({ id: v.string(), list }, { optional: ['list'] }));
+
+    expect(validator.isValid({ id: '', list: { next: { next: null } } })).toBe(true);
+    expect(validator.isValid({ id: '', list: { next: { next: 1 } } })).toBe(false);
+    expect(validator.isValid({ id: '' })).toBe(false);
+});
@@ -0,0 +1,90 @@
+import * as v from 'index';
+
+const seeds = Array.from({ length: 50 }, (_, i) => i);
+
+const user = v.object({
+    id: v.uuid(),
+    name: v.string().withOptions({ minLength: 2, maxLength: 5 }),
+    email: v.email(),
+    age: v.integer().withOptions({ minimum: 18, maximum: 99 }),
+    score: v.exclusiveMin(v.number(), 0).withOptions({ maximum: 1, multipleOf: 0.05 }),
+    role: v.string(['admin', 'user']),
+    tags: v.array(v.string()).withOptions({ minItems: 1, maxItems: 3, uniqueItems: true }),
+    address: v.object({ city: v.string(), zip: v.regex(/^\d{5}(-\d{4})?$/, 'Zip') }),
+    nickname: v.string().orNull(),
+}, { optional: ['nickname', 'address'] });
+
+test('Generates data that matches the schema', () => {
+    seeds.forEach(seed => {
+        const data = v.sample(user, { seed });
+        expect(user.isValid(data)).toBe(true);
+    });
+});
+
+test('Generates the same data for the same seed', () => {
+    expect(v.sample(user, { seed: 42 })).toEqual(v.sample(user, { seed: 42 }));
+    expect(v.sample(user, { seed: 42 })).not.toEqual(v.sample(user, { seed: 43 }));
+});
+
+test('Generates data for unions, tagged unions, tuples and intersections', () => {
+    const shape = v.taggedUnion('kind', {
+        circle: v.object({ radius: v.number() }),
+        square: v.object({ side: v.number() }),
+    });
+    const validators = [
+        v.union([v.string(), v.integer(), v.nil()]),
+        v.array(shape),
+        v.tuple([v.boolean(), v.date()], v.number()),
+        v.intersect(v.object({ a: v.string() }), v.object({ b: v.number() })),
+        v.record(v.ipv4()),
+        v.any(),
+    ];
+
+    validators.forEach(validator => seeds.forEach(seed => {
+        expect(validator.isValid(v.sample(validator, { seed }))).toBe(true);
+    }));
+
+    const kinds = seeds.map(seed => v.sample(shape, { seed }).kind);
+    expect(kinds).toContain('circle');
+    expect(kinds).toContain('square');
+});
+
+test('Generates data for recursive types and refinements', () => {
+    interface Tree { value: number; children: Tree[]; }
+    const tree = v.recursive<Tree>('Tree', self => v.object({ value: v.number(), children: v.array(self) }));
+    const even = v.integer().refine(x => x % 2 === 0, 'must be even');
+
+    seeds.forEach(seed => {
+        expect(tree.isValid(v.sample(tree, { seed }))).toBe(true);
+        expect(Math.abs(v.sample(even, { seed }) % 2)).toBe(0);
+    });
+});
+
+test('Cannot generate data for formats that are checked by a function', () => {
+    const odd = v.registerFormat('odd-characters', 'OddCharacters', x => x.length % 2 === 1);
+    expect(() => v.sample(odd)).toThrow(`Cannot generate data for the 'odd-characters' format`);
+
+    const lookahead = v.regex(/^(?=a)\w+$/, 'Lookahead');
+    expect(() => v.sample(lookahead)).toThrow('Cannot generate a string matching the pattern /^(?=a)\\w+$/');
+});
+
+test('Shrinks values to smaller values that match the schema', () => {
+    const numbers = v.array(v.integer().withOptions({ minimum: 10 })).withOptions({ minItems: 1 });
+    const shrunk = v.arbitrary(numbers).shrink([25, 40]);
+
+    expect(shrunk).toContainEqual([25]);
+    expect(shrunk).toContainEqual([12, 40]);
+    shrunk.forEach(value => expect(numbers.isValid(value)).toBe(true));
+});
+
+test('Checks properties and reports the smallest failing value', () => {
+    const numbers = v.array(v.integer().withOptions({ minimum: 0, maximum: 100 }));
+
+    expect(() => v.arbitrary(numbers).check(xs => xs.every(x => x >= 0), { seed: 1 })).not.toThrow();
+
+    expect(() => v.arbitrary(numbers).check(xs => xs.every(x => x < 50), { seed: 1 }))
+        .toThrow(/Property failed after \d+ run\(s\) \(seed \d+\) with: \[50\]/);
+
+    expect(() => v.arbitrary(numbers).check(xs => { expect(xs.length).toBeLessThan(3); }, { seed: 1 }))
+        .toThrow(/with: \[0,0,0\]/);
+});
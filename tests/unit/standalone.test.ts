@@ -0,0 +1,146 @@
+import * as Ajv from 'ajv';
+import * as vm from 'vm';
+import * as v from 'index';
+import { fail } from '../helpers/assert';
+
+// runs the generated module the same way that node would load it, but without any dependencies
+const load = (code: string) => {
+    const module = { exports: {} as Record<string, (data: unknown) => any> };
+    const require = (id: string) => { throw new Error(`Cannot find module '${id}'`); };
+    vm.runInNewContext(code, { require, module, exports: module.exports });
+    return module.exports;
+};
+
+const user = v.object({
+    name: v.string(),
+    email: v.email(),
+    tags: v.array(v.string()),
+}, { optional: ['tags'] }).setSchemaMetaData({ title: 'User' });
+
+test('Can generate a module with type guards and validation functions', () => {
+    const { isUser, validateUser } = load(v.toStandaloneModule({ user }).code);
+
+    expect(isUser({ name: 'Andy', email: 'andy@example.com' })).toBe(true);
+    expect(isUser({ name: 'Andy', email: 'andy' })).toBe(false);
+    expect(isUser({ name: 'Andy', email: 'andy@example.com', tags: [22] })).toBe(false);
+
+    const result = validateUser({ name: 'Andy', email: 'andy@example.com', tags: [22] });
+    if (result.valid) return fail();
+
+    expect(v.errorReports(result)).toEqual([
+        { path: 'tags[0]', message: 'expected string, got number', keyword: 'type' },
+    ]);
+});
+
+test('Does not compile schemas when the module runs', () => {
+    const { code } = v.toStandaloneModule({ user });
+    const compile = jest.spyOn(Ajv.prototype, 'compile');
+
+    const { isUser } = load(code);
+    expect(isUser({ name: 'Andy', email: 'andy@example.com' })).toBe(true);
+
+    expect(compile).not.toHaveBeenCalled();
+    expect(code).not.toContain('new Function');
+    compile.mockRestore();
+});
+
+test('Can precompile recursive types and tagged unions', () => {
+    interface Tree { value: number; children: Tree[]; }
+    const tree = v.recursive<Tree>('Tree', self => v.object({ value: v.number(), children: v.array(self) }));
+
+    const shape = v.taggedUnion('kind', {
+        circle: v.object({ radius: v.number() }),
+        square: v.object({ side: v.number() }),
+    });
+
+    const { isTree, isShapes, validateShapes } = load(v.toStandaloneModule({ tree, Shapes: v.array(shape) }).code);
+
+    expect(isTree({ value: 1, children: [{ value: 2, children: [] }] })).toBe(true);
+    expect(isTree({ value: 1, children: [{ value: '2', children: [] }] })).toBe(false);
+
+    expect(isShapes([{ kind: 'circle', radius: 1 }, { kind: 'square', side: 2 }])).toBe(true);
+
+    const result = validateShapes([{ kind: 'circle', radius: 1 }, { kind: 'triangle', base: 2 }]);
+    if (result.valid) return fail();
+
+    expect(v.formatErrors(result)).toBe(`[1]: unknown kind 'triangle', expected one of 'circle', 'square'`);
+});
+
+test('Uses the formats of the default context', () => {
+    const zip = v.fromSchema({ type: 'string', format: 'zip' } as const);
+
+    v.configure({ formats: { zip: /^\d{5}$/ } });
+    const { code } = v.toStandaloneModule({ Zip: zip });
+    v.configure({});
+
+    const { isZip } = load(code);
+    expect(isZip('12345')).toBe(true);
+    expect(isZip('1234')).toBe(false);
+});
+
+test('Includes the helpers and formats of Ajv that the module uses', () => {
+    const event = v.object({
+        id: v.uuid(),
+        on: v.date(),
+        at: v.dateTime(),
+        tags: v.array(v.string().withOptions({ minLength: 2 })),
+        levels: v.array(v.object({ severity: v.number() })).withOptions({ uniqueItems: true }),
+    }).setSchemaMetaData({ title: 'Event' });
+    const valid = { id: '6ba7b810-9dad-11d1-80b4-00c04fd430c8', on: '2020-02-29', at: '2020-02-29T12:00:00Z', tags: ['ab', '😀😀'], levels: [{ severity: 1 }, { severity: 2 }] };
+
+    const fast = load(v.toStandaloneModule({ event }).code);
+    expect(fast.isEvent(valid)).toBe(true);
+    expect(fast.isEvent({ ...valid, tags: ['😀'] })).toBe(false);
+    expect(fast.isEvent({ ...valid, levels: [{ severity: 1 }, { severity: 1 }] })).toBe(false);
+    expect(fast.isEvent({ ...valid, id: 'abc' })).toBe(false);
+
+    // only the full mode checks that dates exist
+    expect(fast.isEvent({ ...valid, on: '2019-02-29' })).toBe(true);
+
+    v.configure({ format: 'full' });
+    const { code } = v.toStandaloneModule({ event });
+    v.configure({});
+
+    const full = load(code);
+    expect(full.isEvent(valid)).toBe(true);
+    expect(full.isEvent({ ...valid, on: '2019-02-29' })).toBe(false);
+    expect(full.isEvent({ ...valid, at: '2019-02-29T12:00:00Z' })).toBe(false);
+    expect(code).not.toContain('require(');
+});
+
+test('Generates declarations for the module', () => {
+    const { declarations } = v.toStandaloneModule({ user });
+
+    expect(declarations).toBe([
+        `import { ErrorObject } from 'ajv';`,
+        `import { Nominal } from 'simplytyped';`,
+        '',
+        'export interface User {',
+        '    name: string;',
+        `    email: Nominal<string, 'Email'>;`,
+        '    tags?: string[];',
+        '}',
+        '',
+        'export declare function isUser(data: unknown): data is User;',
+        'export declare function validateUser(data: unknown): { valid: true, data: User } | { valid: false, errors: ErrorObject[] };',
+        '',
+    ].join('\n'));
+});
+
+test('Cannot precompile refinements or formats checked by a function', () => {
+    const even = v.number().refine(x => x % 2 === 0, 'must be even');
+    expect(() => v.toStandaloneModule({ even })).toThrow('Cannot precompile even, because refinements are functions that only exist at runtime');
+
+    const odd = v.registerFormat('odd-length', 'OddLength', x => x.length % 2 === 1);
+    expect(() => v.toStandaloneModule({ odd })).toThrow(`Cannot precompile the 'odd-length' format, because it is checked by a function that only exists at runtime`);
+});
+
+test('Fills default values into a copy of the data when validating', () => {
+    const settings = v.object({ page: v.number().default(1) });
+    const { isSettings, validateSettings } = load(v.toStandaloneModule({ Settings: settings }).code);
+
+    const x = {};
+    expect(isSettings(x)).toBe(true);
+    expect(validateSettings(x)).toEqual({ valid: true, data: { page: 1 } });
+    expect(x).toEqual({});
+});
@@ -0,0 +1,52 @@
+import * as v from 'index';
+import { fail, pass } from '../helpers/assert';
+
+const user = v.object({ name: v.string(), age: v.number() }, { strict: true });
+
+test('Strict objects reject unknown keys', () => {
+    expect(user.isValid({ name: 'a', age: 1 })).toBe(true);
+
+    const result = user.validate({ name: 'a', age: 1, admin: true });
+    if (result.valid) return fail();
+
+    expect(v.formatErrors(result)).toBe(`unknown key 'admin'`);
+});
+
+test('Strict objects can be intersected with other objects', () => {
+    const validator = user.and(v.object({ email: v.string() }));
+
+    if (validator.isValid({ name: 'a', age: 1, email: 'a@b.c' })) pass();
+    else fail();
+
+    expect(validator.isValid({ name: 'a', age: 1, email: 'a@b.c', admin: true })).toBe(false);
+    expect(validator.isValid({ name: 'a', age: 1 })).toBe(false);
+    expect(v.intersect(v.object({ id: v.number() }), user).isValid({ id: 1, name: 'a', age: 1 })).toBe(true);
+});
+
+test('Intersected strict objects check shared keys against both sides', () => {
+    const validator = v.intersect(
+        v.object({ id: v.union([v.string(), v.number()]) }, { strict: true }),
+        v.object({ id: v.number() }),
+    );
+
+    expect(validator.isValid({ id: 1 })).toBe(true);
+    expect(validator.isValid({ id: '1' })).toBe(false);
+});
+
+test('Strict objects can only be intersected with plain objects', () => {
+    expect(() => user.and(v.record(v.string()))).toThrow('Can only intersect a strict or stripping object');
+});
+
+test('Strict variants of a tagged union accept their tag', () => {
+    const shape = v.taggedUnion('kind', {
+        circle: v.object({ radius: v.number() }, { strict: true }),
+        square: v.object({ side: v.number() }, { strict: true }),
+    });
+
+    expect(shape.isValid({ kind: 'circle', radius: 1 })).toBe(true);
+    expect(shape.isValid({ kind: 'circle', radius: 1, side: 1 })).toBe(false);
+});
+
+test('Cannot both reject and strip unknown keys', () => {
+    expect(() => v.object({ a: v.string() }, { strict: true, strip: true })).toThrow();
+});
@@ -0,0 +1,69 @@
+import * as v from 'index';
+import { fail } from '../helpers/assert';
+
+const user = v.object({ name: v.string() }, { strip: true });
+
+test('Stripping objects remove unknown keys from a copy of the data', () => {
+    const data = { name: 'a', admin: true };
+
+    const result = user.validate(data);
+    if (!result.valid) return fail();
+
+    expect(result.data).toEqual({ name: 'a' });
+    expect(data).toEqual({ name: 'a', admin: true });
+    expect(user.parse(data)).toEqual({ name: 'a' });
+});
+
+test('Unknown keys are removed at every depth', () => {
+    const validator = v.object({
+        users: v.array(user),
+        owner: user,
+        meta: v.any(),
+    });
+
+    const result = validator.validate({
+        users: [{ name: 'a', x: 1 }, { name: 'b', y: 2 }],
+        owner: { name: 'c', z: 3 },
+        meta: { w: 4 },
+        other: 5,
+    });
+    if (!result.valid) return fail();
+
+    expect(result.data).toEqual({
+        users: [{ name: 'a' }, { name: 'b' }],
+        owner: { name: 'c' },
+        meta: { w: 4 },
+        other: 5,
+    });
+});
+
+test('Intersected stripping objects keep the keys of both sides', () => {
+    const validator = user.and(v.object({ email: v.string() }));
+
+    const result = validator.validate({ name: 'a', email: 'a@b.c', admin: true });
+    if (!result.valid) return fail();
+
+    expect(result.data).toEqual({ name: 'a', email: 'a@b.c' });
+});
+
+test('Only the matching branch of a union decides which keys are known', () => {
+    const validator = v.union([
+        v.object({ a: v.string() }, { strip: true }),
+        v.object({ b: v.number() }, { strip: true }),
+    ]);
+
+    const result = validator.validate({ b: 1, c: 2 });
+    if (!result.valid) return fail();
+
+    expect(result.data).toEqual({ b: 1 });
+});
+
+test('Can strip unknown keys from recursive types', () => {
+    interface Node { children: Node[]; }
+    const node = v.recursive<Node>('Node', node => v.object({ children: v.array(node) }, { strip: true }));
+
+    const result = node.validate({ children: [{ children: [], x: 1 }], y: 2 });
+    if (!result.valid) return fail();
+
+    expect(result.data).toEqual({ children: [{ children: [] }] });
+});
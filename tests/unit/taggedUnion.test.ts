@@ -0,0 +1,66 @@
+import * as v from 'index';
+import { fail, pass, assertTypesEqual } from '../helpers/assert';
+
+const shape = v.taggedUnion('kind', {
+    circle: v.object({ radius: v.number() }),
+    square: v.object({ side: v.number() }),
+});
+
+test('Can validate a discriminated union', () => {
+    const x: any = { kind: 'circle', radius: 2 };
+
+    if (shape.isValid(x)) {
+        type expected = { radius: number, kind: 'circle' } | { side: number, kind: 'square' };
+        assertTypesEqual<typeof x, expected>();
+        assertTypesEqual<expected, typeof x>();
+        pass();
+    } else {
+        fail();
+    }
+
+    expect(shape.isValid({ kind: 'square', side: 1 })).toBe(true);
+    expect(shape.isValid({ kind: 'square', radius: 1 })).toBe(false);
+    expect(shape.isValid({ radius: 1 })).toBe(false);
+    expect(shape.isValid('circle')).toBe(false);
+});
+
+test('Narrows on the tag', () => {
+    const size = (s: v.ValidType<typeof shape>) => s.kind === 'circle' ? s.radius : s.side;
+    expect(size({ kind: 'square', side: 3 })).toBe(3);
+});
+
+test('Only reports the errors of the variant with the matching tag', () => {
+    const result = shape.validate({ kind: 'square', side: '1' });
+    if (result.valid) return fail();
+
+    expect(v.errorReports(result)).toEqual([
+        { path: 'side', message: 'expected number, got string', keyword: 'type' },
+    ]);
+});
+
+test('Reports unknown tags', () => {
+    const result = v.object({ shape }).validate({ shape: { kind: 'triangle', base: 1 } });
+    if (result.valid) return fail();
+
+    expect(v.formatErrors(result)).toBe(`shape: unknown kind 'triangle', expected one of 'circle', 'square'`);
+});
+
+test('Reports missing tags', () => {
+    const result = shape.validate({ side: 1 });
+    if (result.valid) return fail();
+
+    expect(v.formatErrors(result)).toBe(`missing required key 'kind'`);
+});
+
+test('Can generate typescript for a discriminated union', () => {
+    expect(v.toTypeScript({ Shape: shape })).toBe([
+        'export type Shape = {',
+        `    kind: 'circle';`,
+        '    radius: number;',
+        '} | {',
+        `    kind: 'square';`,
+        '    side: number;',
+        '};',
+        '',
+    ].join('\n'));
+});
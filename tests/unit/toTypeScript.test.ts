@@ -0,0 +1,126 @@
+import * as v from 'index';
+
+test('Can generate an interface for an object validator', () => {
+    const user = v.object({
+        name: v.string(),
+        age: v.number(),
+        nickname: v.string(),
+    }, { optional: ['nickname'] });
+
+    expect(v.toTypeScript({ User: user })).toBe([
+        'export interface User {',
+        '    name: string;',
+        '    age: number;',
+        '    nickname?: string;',
+        '}',
+        '',
+    ].join('\n'));
+});
+
+test('Uses title as the type name and description as documentation', () => {
+    const address = v.object({
+        zip: v.string().setSchemaMetaData({ description: 'A postal code' }),
+    }).setSchemaMetaData({ title: 'Address' });
+
+    const user = v.object({
+        address,
+    }).setSchemaMetaData({ title: 'Customer', description: 'A paying user' });
+
+    expect(v.toTypeScript({ User: user })).toBe([
+        '/**',
+        ' * A paying user',
+        ' */',
+        'export interface Customer {',
+        '    address: Address;',
+        '}',
+        '',
+        'export interface Address {',
+        '    /**',
+        '     * A postal code',
+        '     */',
+        '    zip: string;',
+        '}',
+        '',
+    ].join('\n'));
+});
+
+test('Cannot declare two different types with the same title', () => {
+    const address = v.object({ zip: v.string() }).setSchemaMetaData({ title: 'Address' });
+    const otherAddress = v.object({ street: v.string() }).setSchemaMetaData({ title: 'Address' });
+
+    expect(v.toTypeScript({ Home: v.object({ address }), Work: v.object({ address }) })).toContain('export interface Address {');
+    expect(() => v.toTypeScript({ Home: v.object({ address }), Work: v.object({ address: otherAddress }) }))
+        .toThrow(`Cannot declare two different types named 'Address'`);
+});
+
+test('Can generate types for records, arrays, unions, intersections, and enums', () => {
+    const validators = {
+        Scores: v.record(v.number()),
+        Tags: v.array(v.string(['a', 'b'])),
+        Maybe: v.union([v.string(), v.number()]).orNull(),
+        Both: v.intersect(v.object({ a: v.string() }), v.object({ b: v.boolean() })),
+        Pair: v.tuple([v.string(), v.number()], v.boolean()),
+        Empty: v.tuple([]),
+        Anything: v.array(v.union([v.string(), v.nil()])),
+    };
+
+    expect(v.toTypeScript(validators)).toBe([
+        'export type Scores = Record<string, number>;',
+        '',
+        `export type Tags = ('a' | 'b')[];`,
+        '',
+        'export type Maybe = string | number | null;',
+        '',
+        'export type Both = {',
+        '    a: string;',
+        '} & {',
+        '    b: boolean;',
+        '};',
+        '',
+        'export type Pair = [string, number, ...boolean[]];',
+        '',
+        'export type Empty = [];',
+        '',
+        'export type Anything = (string | null)[];',
+        '',
+    ].join('\n'));
+});
+
+test('Can generate nominal types', () => {
+    const user = v.object({
+        id: v.nominal(v.string(), 'UserId').setSchemaMetaData({ description: 'unique' }),
+    });
+
+    expect(v.toTypeScript({ User: user })).toBe([
+        `import { Nominal } from 'simplytyped';`,
+        '',
+        'export interface User {',
+        '    /**',
+        '     * unique',
+        '     */',
+        `    id: Nominal<string, 'UserId'>;`,
+        '}',
+        '',
+    ].join('\n'));
+});
+
+test('Can generate recursive types', () => {
+    interface Node { value: number; children: Node[]; }
+
+    const node = v.recursive<Node>('Node', node => v.object({
+        value: v.number(),
+        children: v.array(node),
+    }));
+
+    expect(v.toTypeScript({ Tree: v.object({ root: node }) })).toBe([
+        'export interface Tree {',
+        '    root: Node;',
+        '}',
+        '',
+        'export interface Node {',
+        '    value: number;',
+        '    children: Node[];',
+        '}',
+        '',
+    ].join('\n'));
+});
@@ -0,0 +1,75 @@
+import * as v from 'index';
+import { fail, pass, assertTypesEqual } from '../helpers/assert';
+
+test('Can validate a tuple', () => {
+    const x: any = ['hi', 22];
+
+    const validator = v.tuple([ v.string(), v.number() ]);
+
+    if (validator.isValid(x)) {
+        type got = typeof x;
+        type expected = [string, number];
+        assertTypesEqual<got, expected>();
+        assertTypesEqual<expected, got>();
+        pass();
+    } else {
+        fail();
+    }
+});
+
+test('Elements are checked positionally', () => {
+    const x: any = [22, 'hi'];
+
+    const validator = v.tuple([ v.string(), v.number() ]);
+
+    if (validator.isValid(x)) fail();
+    else pass();
+});
+
+test('Tuple without rest cannot have extra or missing elements', () => {
+    const validator = v.tuple([ v.string(), v.number() ]);
+
+    expect(validator.isValid(['hi', 22, 23])).toBe(false);
+    expect(validator.isValid(['hi'])).toBe(false);
+});
+
+test('Can validate a tuple with rest elements', () => {
+    const x: any = ['hi', true, false, true];
+
+    const validator = v.tuple([ v.string() ], v.boolean());
+
+    if (validator.isValid(x)) {
+        type got = typeof x;
+        type expected = [string, ...boolean[]];
+        assertTypesEqual<got, expected>();
+        assertTypesEqual<expected, got>();
+        pass();
+    } else {
+        fail();
+    }
+
+    expect(validator.isValid(['hi'])).toBe(true);
+    expect(validator.isValid(['hi', true, 22])).toBe(false);
+    expect(validator.isValid([])).toBe(false);
+});
+
+test('Can add JSON Schema options', () => {
+    const validator = v.tuple([ v.string() ], v.number())
+        .withOptions({ maxItems: 3 });
+
+    expect(validator.isValid(['hi', 1, 2])).toBe(true);
+    expect(validator.isValid(['hi', 1, 2, 3])).toBe(false);
+});
+
+test('Can validate an empty tuple', () => {
+    const validator = v.tuple([]);
+
+    expect(validator.getSchema()).toEqual({ type: 'array', maxItems: 0 });
+    expect(validator.isValid([])).toBe(true);
+    expect(validator.isValid(['hi'])).toBe(false);
+
+    const rest = v.tuple([], v.number());
+    expect(rest.isValid([])).toBe(true);
+    expect(rest.isValid([1, 2])).toBe(true);
+    expect(rest.isValid(['hi'])).toBe(false);
+});
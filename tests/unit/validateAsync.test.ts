@@ -0,0 +1,60 @@
+import * as v from 'index';
+import { fail, assertTypesEqual } from '../helpers/assert';
+
+interface UserRepository {
+    isTaken(username: string): Promise<boolean>;
+}
+
+const repository: UserRepository = {
+    isTaken: async (username) => username === 'admin',
+};
+
+const signup = v.object({
+    username: v.string().refineAsync(async name => !await repository.isTaken(name), 'username is taken'),
+    password: v.string(),
+});
+
+test('Can validate asynchronously', async () => {
+    const result = await v.number().validateAsync(22);
+    if (!result.valid) return fail();
+
+    assertTypesEqual<typeof result.data, number>();
+    expect(result.data).toBe(22);
+
+    expect(await v.number().isValidAsync(22)).toBe(true);
+    expect(await v.number().isValidAsync('22')).toBe(false);
+});
+
+test('Can validate with asynchronous refinements', async () => {
+    const valid = await signup.validateAsync({ username: 'andy', password: 'pass' });
+    expect(valid).toEqual({ data: { username: 'andy', password: 'pass' }, valid: true });
+
+    const taken = await signup.validateAsync({ username: 'admin', password: 'pass' });
+    if (taken.valid) return fail();
+
+    expect(taken.errors.length).toBe(1);
+    expect(v.formatErrors(taken)).toBe('username: username is taken');
+});
+
+test('Reports schema errors from asynchronous validation', async () => {
+    const result = await signup.validateAsync({ username: 'andy' });
+    if (result.valid) return fail();
+
+    expect(v.formatErrors(result)).toBe(`missing required key 'password'`);
+});
+
+test('Can validate $async schemas', async () => {
+    const validator = new v.Validator<string>({ $async: true, type: 'string' } as any);
+
+    expect(await validator.isValidAsync('hi')).toBe(true);
+    expect(await validator.isValidAsync(1)).toBe(false);
+    expect(() => validator.isValid('hi')).toThrow('isValidAsync');
+});
+
+test('Cannot synchronously validate asynchronous refinements', () => {
+    expect(() => signup.isValid({ username: 'andy', password: 'pass' })).toThrow();
+});
+
+test('Asynchronous refinements are not a part of the JSON schema', () => {
+    expect(signup.getSchema()).toEqual(v.object({ username: v.string(), password: v.string() }).getSchema());
+});
@@ -0,0 +1,102 @@
+import * as v from 'index';
+import { assertTypesEqual, fail } from '../helpers/assert';
+
+const userV1 = v.object({ name: v.string() });
+const userV2 = v.object({ version: v.number([2]), first: v.string(), last: v.string() });
+const userV3 = v.object({ version: v.number([3]), first: v.string(), last: v.string(), email: v.string().orNull() });
+
+const user = v.versioned({ 1: userV1, 2: userV2, 3: userV3 }, {
+    key: 'version',
+    migrate: {
+        1: u => ({ version: 2, first: u.name.split(' ')[0], last: u.name.split(' ').slice(1).join(' ') }),
+        2: u => ({ ...u, version: 3, email: null }),
+    },
+});
+
+test('Migrates data step by step to the latest version', () => {
+    const result = user.validate({ name: 'Andy Patterson' });
+    if (!result.valid) return fail();
+
+    assertTypesEqual<typeof result.data, { version: 3, first: string, last: string, email: string | null }>();
+    expect(result).toEqual({
+        valid: true,
+        version: 1,
+        data: { version: 3, first: 'Andy', last: 'Patterson', email: null },
+    });
+
+    expect(user.parse({ version: 2, first: 'Andy', last: 'Patterson' })).toEqual({ version: 3, first: 'Andy', last: 'Patterson', email: null });
+    expect(user.parse({ version: 3, first: 'Andy', last: 'Patterson', email: 'andy@example.com' }).email).toBe('andy@example.com');
+});
+
+test('Detects the version from the key or by trying each version', () => {
+    expect(user.latestVersion).toBe(3);
+    expect(user.detectVersion({ name: 'Andy' })).toBe(1);
+    expect(user.detectVersion({ version: 2, first: 'Andy', last: 'Patterson' })).toBe(2);
+    expect(user.detectVersion({ version: 2, name: 'Andy' })).toBeUndefined();
+
+    const unkeyed = v.versioned({ 1: v.object({ count: v.string() }), 2: v.object({ count: v.number() }) }, {
+        migrate: { 1: x => ({ count: parseInt(x.count) }) },
+    });
+    expect(unkeyed.detectVersion({ count: 2 })).toBe(2);
+    expect(unkeyed.parse({ count: '2' })).toEqual({ count: 2 });
+});
+
+test('Detects the version without filling in the default values of other versions', () => {
+    const settings = v.versioned({
+        1: v.object({ a: v.string() }, { strict: true }),
+        2: v.object({ a: v.string(), b: v.number().default(0), c: v.string() }),
+    }, {
+        migrate: { 1: x => ({ ...x, b: 0, c: '' }) },
+    });
+
+    const data = { a: 'x' };
+    expect(settings.detectVersion(data)).toBe(1);
+    expect(data).toEqual({ a: 'x' });
+    expect(settings.parse(data)).toEqual({ a: 'x', b: 0, c: '' });
+});
+
+test('Reports the errors of the declared or the latest version', () => {
+    const declared = user.validate({ version: 2, first: 'Andy' });
+    if (declared.valid) return fail();
+    expect(v.errorReports(declared)).toEqual([{ path: '', message: `missing required key 'last'`, keyword: 'required' }]);
+
+    const unknown = user.validate({ version: 4 });
+    if (unknown.valid) return fail();
+    expect(v.errorReports(unknown)).toEqual([{ path: 'version', message: 'unknown value 4, expected one of 1, 2, 3', keyword: 'enum' }]);
+
+    expect(() => user.parse({ first: 'Andy' })).toThrow(v.ValidationError);
+});
+
+test('Migrates the data of each version as validated by its validator', () => {
+    const event = v.versioned({
+        1: v.object({ at: v.isoDate() }, { strip: true }),
+        2: v.object({ at: v.isoDate(), by: v.string() }, { strip: true }),
+        3: v.object({ at: v.isoDate(), by: v.string(), tags: v.array(v.string()) }),
+    }, {
+        migrate: {
+            1: e => {
+                assertTypesEqual<typeof e, { at: Date }>();
+                return { ...e, at: e.at.toISOString(), by: 'system' };
+            },
+            2: e => ({ ...e, at: e.at.toISOString(), tags: [e.by] }),
+        },
+    });
+
+    const at = '2020-01-01T00:00:00.000Z';
+    expect(event.parse({ at, extra: true })).toEqual({ at: new Date(at), by: 'system', tags: ['system'] });
+});
+
+test('Throws when a migration returns invalid data', () => {
+    const broken = v.versioned({ 1: v.object({ a: v.string() }), 2: v.object({ b: v.string() }) }, {
+        migrate: { 1: x => ({ b: x.a.length } as any) },
+    });
+
+    expect(() => broken.validate({ a: 'hi' })).toThrow(`The migration from version 1 to 2 returned invalid data:\nb: expected string, got number`);
+});
+
+test('Requires consecutive versions with a migration between each', () => {
+    expect(() => v.versioned({ 1: userV1, 3: userV3 } as any, { migrate: { 1: (x: any) => x } } as any))
+        .toThrow('Versions must be consecutive numbers, but version 2 is missing');
+    expect(() => v.versioned({ 1: userV1, 2: userV2 }, { migrate: {} as any }))
+        .toThrow('Missing the migration from version 1 to 2');
+});